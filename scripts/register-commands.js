@@ -14,7 +14,7 @@ const url = guildId
 const commands = [
   {
     name: "feed",
-    description: "RSS/Atom フィード購読を管理します",
+    description: "RSS/Atom/JSON Feed の購読を管理します",
     options: [
       {
         type: 1,
@@ -26,13 +26,76 @@ const commands = [
             name: "url",
             description: "フィードの URL",
             required: true
+          },
+          {
+            type: 3,
+            name: "style",
+            description: "投稿形式（既定: plain）",
+            choices: [
+              { name: "plain（タイトルとリンク）", value: "plain" },
+              { name: "embed（要約・サムネイル付き）", value: "embed" }
+            ]
+          },
+          {
+            type: 3,
+            name: "include",
+            description: "含める条件（カンマ区切り。/正規表現/ や category:名前 も可）"
+          },
+          {
+            type: 3,
+            name: "exclude",
+            description: "除外する条件（カンマ区切り。/正規表現/ や category:名前 も可）"
+          },
+          {
+            type: 5,
+            name: "webhook",
+            description: "Webhook 経由でフィード名・アイコン付きで投稿（Webhook を自動作成）"
+          },
+          {
+            type: 3,
+            name: "webhook_url",
+            description: "既存の Webhook URL を使って投稿"
+          },
+          {
+            type: 7,
+            name: "channel",
+            description: "投稿先のチャンネル（既定: このチャンネル。フォーラムも可）",
+            channel_types: [0, 5, 15, 16]
+          },
+          {
+            type: 3,
+            name: "tags",
+            description: "フォーラム投稿に付けるタグ名（カンマ区切り、最大 5 個）"
+          },
+          {
+            type: 5,
+            name: "thread",
+            description: "記事ごとにスレッドを作成（テキストチャンネルのみ）"
+          },
+          {
+            type: 5,
+            name: "publish",
+            description: "投稿を公開してフォロー先のサーバーに配信（アナウンスチャンネルのみ）"
           }
         ]
       },
       {
         type: 1,
         name: "list",
-        description: "サーバー内の購読一覧"
+        description: "サーバー内の購読一覧",
+        options: [
+          {
+            type: 7,
+            name: "channel",
+            description: "このチャンネルの購読だけを表示"
+          },
+          {
+            type: 3,
+            name: "query",
+            description: "フィード名・URL・ID で絞り込み",
+            max_length: 30
+          }
+        ]
       },
       {
         type: 1,
@@ -43,9 +106,287 @@ const commands = [
             type: 3,
             name: "subscribed_id",
             description: "購読 ID",
+            required: true,
+            autocomplete: true
+          }
+        ]
+      },
+      {
+        type: 1,
+        name: "edit",
+        description: "購読の設定を変更",
+        options: [
+          {
+            type: 3,
+            name: "subscribed_id",
+            description: "購読 ID",
+            required: true,
+            autocomplete: true
+          },
+          {
+            type: 3,
+            name: "style",
+            description: "投稿形式",
+            choices: [
+              { name: "plain（タイトルとリンク）", value: "plain" },
+              { name: "embed（要約・サムネイル付き）", value: "embed" }
+            ]
+          },
+          {
+            type: 3,
+            name: "include",
+            description: "含める条件（カンマ区切り。- で解除）"
+          },
+          {
+            type: 3,
+            name: "exclude",
+            description: "除外する条件（カンマ区切り。- で解除）"
+          },
+          {
+            type: 4,
+            name: "interval",
+            description: "取得間隔（分。10 で既定に戻す）",
+            min_value: 10,
+            max_value: 10080
+          },
+          {
+            type: 3,
+            name: "quiet_hours",
+            description: "投稿を控える時間帯（例: 22:00-07:00。- で解除）"
+          },
+          {
+            type: 3,
+            name: "timezone",
+            description: "quiet_hours のタイムゾーン（既定: Asia/Tokyo）"
+          },
+          {
+            type: 5,
+            name: "thread",
+            description: "記事ごとにスレッドを作成（テキストチャンネルのみ）"
+          },
+          {
+            type: 3,
+            name: "tags",
+            description: "フォーラム投稿に付けるタグ名（カンマ区切り。- で解除）"
+          },
+          {
+            type: 5,
+            name: "publish",
+            description: "投稿を公開してフォロー先のサーバーに配信（アナウンスチャンネルのみ）"
+          },
+          {
+            type: 3,
+            name: "translate",
+            description: "タイトルと要約の翻訳先の言語コード（例: ja。- で解除）"
+          },
+          {
+            type: 3,
+            name: "languages",
+            description: "投稿する記事の言語（例: ja,en。- で解除）"
+          }
+        ]
+      },
+      {
+        type: 1,
+        name: "resume",
+        description: "停止した購読の取得を再開",
+        options: [
+          {
+            type: 3,
+            name: "subscribed_id",
+            description: "購読 ID",
+            required: true,
+            autocomplete: true
+          }
+        ]
+      },
+      {
+        type: 1,
+        name: "import",
+        description: "OPML ファイルからこのチャンネルに購読を追加",
+        options: [
+          {
+            type: 11,
+            name: "file",
+            description: "OPML ファイル",
             required: true
           }
         ]
+      },
+      {
+        type: 1,
+        name: "export",
+        description: "サーバー内の購読を OPML で書き出し"
+      },
+      {
+        type: 1,
+        name: "template",
+        description: "投稿メッセージのテンプレートを設定",
+        options: [
+          {
+            type: 3,
+            name: "subscribed_id",
+            description: "購読 ID",
+            required: true,
+            autocomplete: true
+          },
+          {
+            type: 3,
+            name: "template",
+            description: "例: {title}\\n{link}（- で解除）",
+            max_length: 1000
+          },
+          {
+            type: 3,
+            name: "prefix",
+            description: "先頭に付ける文字列や絵文字（- で解除）",
+            max_length: 100
+          },
+          {
+            type: 8,
+            name: "role",
+            description: "投稿時にメンションするロール"
+          },
+          {
+            type: 5,
+            name: "reset",
+            description: "テンプレート設定をすべて解除"
+          }
+        ]
+      },
+      {
+        type: 1,
+        name: "mention",
+        description: "条件に一致した記事でロールやユーザーをメンション",
+        options: [
+          {
+            type: 3,
+            name: "subscribed_id",
+            description: "購読 ID",
+            required: true,
+            autocomplete: true
+          },
+          {
+            type: 8,
+            name: "role",
+            description: "メンションするロール"
+          },
+          {
+            type: 6,
+            name: "user",
+            description: "メンションするユーザー"
+          },
+          {
+            type: 3,
+            name: "when",
+            description: "メンションする条件（include と同じ書式。省略すると常に）"
+          },
+          {
+            type: 5,
+            name: "remove",
+            description: "指定したロール・ユーザーのルールを削除"
+          }
+        ]
+      },
+      {
+        type: 1,
+        name: "digest",
+        description: "このチャンネルの新着記事をまとめて投稿",
+        options: [
+          {
+            type: 3,
+            name: "frequency",
+            description: "投稿頻度",
+            choices: [
+              { name: "毎日", value: "daily" },
+              { name: "毎週", value: "weekly" },
+              { name: "解除", value: "off" }
+            ]
+          },
+          {
+            type: 3,
+            name: "time",
+            description: "投稿時刻（例: 09:00）"
+          },
+          {
+            type: 4,
+            name: "weekday",
+            description: "毎週の場合の曜日",
+            choices: [
+              { name: "日曜", value: 0 },
+              { name: "月曜", value: 1 },
+              { name: "火曜", value: 2 },
+              { name: "水曜", value: 3 },
+              { name: "木曜", value: 4 },
+              { name: "金曜", value: 5 },
+              { name: "土曜", value: 6 }
+            ]
+          },
+          {
+            type: 3,
+            name: "timezone",
+            description: "タイムゾーン（既定: Asia/Tokyo）"
+          }
+        ]
+      },
+      {
+        type: 1,
+        name: "quota",
+        description: "サーバーごとの購読上限を変更（ボット管理者のみ）",
+        options: [
+          {
+            type: 3,
+            name: "guild_id",
+            description: "対象のサーバー ID（省略時はこのサーバー）"
+          },
+          {
+            type: 4,
+            name: "max_subscriptions",
+            description: "サーバー全体の購読数の上限",
+            min_value: 1
+          },
+          {
+            type: 4,
+            name: "max_per_channel",
+            description: "チャンネルごとの購読数の上限",
+            min_value: 1
+          },
+          {
+            type: 4,
+            name: "min_interval",
+            description: "最小取得間隔（分）",
+            min_value: 1
+          },
+          {
+            type: 5,
+            name: "reset",
+            description: "既定の上限に戻す"
+          }
+        ]
+      },
+      {
+        type: 2,
+        name: "config",
+        description: "サーバーの設定",
+        options: [
+          {
+            type: 1,
+            name: "manager-role",
+            description: "購読を管理できるロールを設定",
+            options: [
+              {
+                type: 8,
+                name: "role",
+                description: "管理ロール"
+              },
+              {
+                type: 5,
+                name: "reset",
+                description: "管理ロールを解除"
+              }
+            ]
+          }
+        ]
       }
     ]
   }
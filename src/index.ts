@@ -4,10 +4,31 @@ import * as nacl from "tweetnacl";
 import { ulidFactory } from "ulid-workers";
 const ulid = ulidFactory();
 
-interface Env {
+export interface Env {
   FEED_KV: KVNamespace;
+  FEED_QUEUE: Queue<FeedCheckMessage>;
   DISCORD_PUBLIC_KEY: string;
   DISCORD_BOT_TOKEN: string;
+  BOT_OWNER_IDS?: string;
+  AI?: WorkersAi;
+}
+
+interface WorkersAi {
+  run(model: string, inputs: Record<string, unknown>): Promise<unknown>;
+}
+
+interface Translator {
+  translate(
+    text: string,
+    targetLanguage: string,
+    sourceLanguage: string
+  ): Promise<string>;
+}
+
+interface FeedCheckMessage {
+  url: string;
+  subscriptionKeys: string[];
+  polledKeys?: string[];
 }
 
 interface Subscription {
@@ -22,8 +43,138 @@ interface Subscription {
   feedTitle?: string;
   errorCount?: number;
   lastError?: string;
+  lastCheckedAt?: number;
+  messageStyle?: MessageStyle;
+  filters?: ItemFilters;
+  template?: MessageTemplate;
+  delivery?: DeliveryTarget;
+  feedImage?: string;
+  feedFormat?: ParsedFeed["format"];
+  status?: SubscriptionStatus;
+  nextCheckAt?: number;
+  lastErrorAt?: number;
+  pausedByUser?: boolean;
+  threadPerItem?: boolean;
+  publish?: boolean;
+  mentions?: MentionRule[];
+  translateTo?: string;
+  languages?: string[];
+  pollIntervalMinutes?: number;
+  lastPolledAt?: number;
+  quietHours?: QuietHours;
+  heldSince?: number;
+}
+
+interface DigestConfig {
+  guildId: string;
+  channelId: string;
+  frequency: "daily" | "weekly";
+  time: string;
+  weekday?: number;
+  timeZone: string;
+  createdAt: number;
+  lastSentAt?: number;
+}
+
+interface DigestEntry {
+  title: string;
+  link?: string;
+  date?: number;
+}
+
+interface DigestQueue {
+  entries: DigestEntry[];
+  dropped: number;
+}
+
+interface DigestSection {
+  feedTitle: string;
+  entries: DigestEntry[];
+  dropped?: number;
+}
+
+interface DigestPart {
+  key: string;
+  section: DigestSection;
+}
+
+interface QuietHours {
+  start: string;
+  end: string;
+  timeZone: string;
+}
+
+type SubscriptionStatus = "active" | "degraded" | "paused" | "disabled";
+
+type DeliveryTarget =
+  | { type: "channel" }
+  | { type: "webhook"; webhookId: string; webhookToken: string }
+  | { type: "forum"; tagIds: string[] };
+
+interface MessageTemplate {
+  text?: string;
+  prefix?: string;
+  roleId?: string;
+}
+
+interface MentionRule {
+  roleId?: string;
+  userId?: string;
+  when: FilterRule[];
+}
+
+interface MentionTargets {
+  roles: string[];
+  users: string[];
+}
+
+type MessageStyle = "plain" | "embed";
+
+interface FilterRule {
+  type: "keyword" | "regex" | "category";
+  value: string;
+}
+
+interface ItemFilters {
+  include: FilterRule[];
+  exclude: FilterRule[];
+}
+
+interface FeedRecord {
+  url: string;
+  title?: string;
+  image?: string;
+  format?: ParsedFeed["format"];
+  etag?: string;
+  lastModified?: string;
+  validatorsUpdatedAt?: number;
+  lastFetchedAt?: number;
+  lastStatus?: number;
+  lastError?: string;
+}
+
+interface LegacyFeedValidators {
+  etag?: string;
+  lastModified?: string;
+  updatedAt: number;
+}
+
+interface SeenHistory {
+  ids: string[];
+  keys: string[];
 }
 
+type FeedFetchResult =
+  | { notModified: true }
+  | {
+      notModified: false;
+      feed: ParsedFeed;
+      title?: string;
+      image?: string;
+      checkedAt: number;
+      validatorsUpdatedAt?: number;
+    };
+
 interface FeedItem {
   id: string;
   title: string;
@@ -31,18 +182,202 @@ interface FeedItem {
   date?: number;
   summary?: string;
   key?: string;
+  image?: string;
+  categories?: string[];
+  author?: string;
+  language?: string;
+}
+
+interface DiscordMessage {
+  content?: string;
+  embeds?: Array<Record<string, unknown>>;
+  allowed_mentions?: {
+    parse: Array<"roles" | "users" | "everyone">;
+    roles?: string[];
+    users?: string[];
+  };
 }
 
 interface ParsedFeed {
   items: FeedItem[];
-  format: "rss" | "atom" | "rdf" | "unknown";
+  format: "rss" | "atom" | "rdf" | "json" | "unknown";
+  title?: string;
+  image?: string;
+  link?: string;
+  language?: string;
+}
+
+interface FeedCandidate {
+  url: string;
+  title?: string;
+}
+
+type FeedProbeResult =
+  | {
+      ok: true;
+      url: string;
+      format: ParsedFeed["format"];
+      title?: string;
+      image?: string;
+    }
+  | { ok: false; message: string; candidates?: FeedCandidate[] };
+
+interface GuildConfig {
+  managerRoleId?: string;
+  quotas?: Partial<GuildQuotas>;
+}
+
+interface GuildQuotas {
+  maxSubscriptions: number;
+  maxSubscriptionsPerChannel: number;
+  minPollIntervalMinutes: number;
+}
+
+interface ListView {
+  page: number;
+  channelId?: string;
+  query?: string;
+}
+
+interface OpmlOutline {
+  url: string;
   title?: string;
 }
 
+interface PendingSubscribe {
+  guildId: string;
+  channelId: string;
+  options: any[];
+  candidates: FeedCandidate[];
+  channelType?: number;
+}
+
 const encoder = new TextEncoder();
 const decoder = new TextDecoder();
 
-const FEED_FETCH_TIMEOUT_MS = 2500;
+const FEED_FETCH_TIMEOUT_MS = 10000;
+
+const WEBHOOK_NAME = "feed-worker";
+
+const ANNOUNCEMENT_CHANNEL_TYPE = 5;
+const FORUM_CHANNEL_TYPES = [15, 16];
+const FORUM_TAG_LIMIT = 5;
+const THREAD_AUTO_ARCHIVE_MINUTES = 1440;
+
+const DISCORD_MAX_ATTEMPTS = 4;
+const DISCORD_MAX_RETRY_WAIT_MS = 10000;
+const DISCORD_SERVER_ERROR_BACKOFF_MS = 500;
+const CROSSPOST_BLOCK_MIN_SECONDS = 60;
+
+interface DiscordChannel {
+  id: string;
+  type: number;
+  available_tags?: Array<{ id: string; name: string }>;
+}
+
+interface RateLimitBucket {
+  remaining: number;
+  resetAt: number;
+}
+
+const rateLimitRoutes = new Map<string, string>();
+const rateLimitBuckets = new Map<string, RateLimitBucket>();
+let globalRateLimitResetAt = 0;
+
+const PENDING_SUBSCRIBE_TTL_SECONDS = 900;
+
+const LIST_PAGE_SIZE = 4;
+
+const DEFAULT_GUILD_QUOTAS: GuildQuotas = {
+  maxSubscriptions: 50,
+  maxSubscriptionsPerChannel: 10,
+  minPollIntervalMinutes: 10,
+};
+const POLL_INTERVAL_SLACK_MS = 60 * 1000;
+const FEED_CHECK_CADENCE_MINUTES = 10;
+const MAX_POLL_INTERVAL_MINUTES = 7 * 24 * 60;
+
+const DEFAULT_TIME_ZONE = "Asia/Tokyo";
+const OUTBOX_LIMIT = 50;
+
+const DIGEST_ITEM_LIMIT = 100;
+const DIGEST_ITEM_TTL_SECONDS = 14 * 24 * 60 * 60;
+const DIGEST_WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const WEEKDAY_LABELS = ["日", "月", "火", "水", "木", "金", "土"];
+const EMBED_DESCRIPTION_LIMIT = 4096;
+const EMBEDS_PER_MESSAGE = 10;
+const EMBED_TOTAL_LIMIT = 6000;
+
+const PERMISSION_ADMINISTRATOR = 1n << 3n;
+const PERMISSION_MANAGE_CHANNELS = 1n << 4n;
+const PERMISSION_MANAGE_GUILD = 1n << 5n;
+const PERMISSION_VIEW_CHANNEL = 1n << 10n;
+
+const MANAGED_SUBCOMMANDS = [
+  "subscribe",
+  "unsubscribe",
+  "edit",
+  "template",
+  "mention",
+  "resume",
+  "import",
+  "digest",
+];
+
+const MENTION_RULE_LIMIT = 10;
+
+const TRANSLATION_MODEL = "@cf/meta/m2m100-1.2b";
+const TRANSLATION_SUMMARY_LIMIT = 500;
+
+const ENGLISH_FUNCTION_WORDS = new Set([
+  "the",
+  "and",
+  "of",
+  "to",
+  "is",
+  "are",
+  "for",
+  "with",
+  "this",
+  "that",
+  "from",
+  "how",
+  "what",
+  "why",
+]);
+const LANGUAGE_FILTER_LIMIT = 10;
+
+const OPML_IMPORT_LIMIT = 50;
+const OPML_IMPORT_CONCURRENCY = 5;
+const OPML_IMPORT_DEADLINE_MS = 15000;
+const OPML_MAX_BYTES = 1024 * 1024;
+
+const SEEN_HISTORY_LIMIT = 500;
+
+const FEED_QUEUE_SEND_BATCH_SIZE = 100;
+const FEED_QUEUE_RETRY_BASE_SECONDS = 30;
+
+const HEALTH_DEGRADED_THRESHOLD = 3;
+const HEALTH_PAUSED_THRESHOLD = 8;
+const HEALTH_DISABLED_THRESHOLD = 15;
+const RETRY_BASE_DELAY_MS = 10 * 60 * 1000;
+const RETRY_MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+const PAUSED_RETRY_DELAY_MS = 24 * 60 * 60 * 1000;
+
+const FEED_LINK_TYPES = [
+  "application/rss+xml",
+  "application/atom+xml",
+  "application/feed+json",
+];
+
+const COMMON_FEED_PATHS = [
+  "/feed",
+  "/rss.xml",
+  "/atom.xml",
+  "/feed.xml",
+  "/index.xml",
+  "/rss",
+];
 
 const xmlParser = new XMLParser({
   ignoreAttributes: false,
@@ -51,6 +386,7 @@ const xmlParser = new XMLParser({
   parseTagValue: true,
   parseAttributeValue: true,
   trimValues: true,
+  htmlEntities: true,
 });
 
 export default {
@@ -95,6 +431,29 @@ export default {
       return jsonResponse({ type: 1 });
     }
 
+    if (interaction.type === 3) {
+      const customId = String(interaction.data?.custom_id ?? "");
+      if (customId.startsWith("feed:pick:")) {
+        return await handleFeedPick(
+          env,
+          ctx,
+          interaction,
+          customId.slice("feed:pick:".length)
+        );
+      }
+      if (customId.startsWith("list:")) {
+        return await handleListAction(
+          env,
+          interaction,
+          customId.slice("list:".length)
+        );
+      }
+    }
+
+    if (interaction.type === 4) {
+      return await handleAutocomplete(env, interaction);
+    }
+
     if (interaction.type !== 2 || interaction.data?.name !== "feed") {
       return jsonResponse({
         type: 4,
@@ -122,13 +481,46 @@ export default {
     const name = subcommand?.name as string | undefined;
     const options = subcommand?.options ?? [];
 
+    if (
+      name &&
+      MANAGED_SUBCOMMANDS.includes(name) &&
+      !(await canManageFeeds(env, guildId, interaction.member))
+    ) {
+      return permissionDeniedResponse();
+    }
+
     switch (name) {
       case "subscribe":
-        return await handleSubscribe(env, guildId, channelId, options);
+        return handleSubscribe(
+          env,
+          ctx,
+          interaction,
+          guildId,
+          channelId,
+          options
+        );
       case "list":
-        return await handleList(env, guildId);
+        return await handleList(env, guildId, options);
       case "unsubscribe":
         return await handleUnsubscribe(env, guildId, options);
+      case "edit":
+        return await handleEdit(env, guildId, options);
+      case "template":
+        return await handleTemplate(env, guildId, options);
+      case "mention":
+        return await handleMention(env, guildId, options);
+      case "resume":
+        return await handleResume(env, guildId, options);
+      case "import":
+        return handleImport(env, ctx, interaction, guildId, channelId, options);
+      case "export":
+        return await handleExport(env, guildId);
+      case "config":
+        return await handleConfig(env, interaction, guildId, options);
+      case "quota":
+        return await handleQuota(env, interaction, guildId, options);
+      case "digest":
+        return await handleDigest(env, guildId, channelId, options);
       default:
         return jsonResponse({
           type: 4,
@@ -145,7 +537,26 @@ export default {
     env: Env,
     ctx: ExecutionContext
   ): Promise<void> {
-    ctx.waitUntil(runFeedChecks(env));
+    ctx.waitUntil(enqueueFeedChecks(env));
+    ctx.waitUntil(sendDueDigests(env));
+  },
+
+  async queue(
+    batch: MessageBatch<FeedCheckMessage>,
+    env: Env,
+    _ctx: ExecutionContext
+  ): Promise<void> {
+    for (const message of batch.messages) {
+      try {
+        await processFeedCheck(env, message.body, message.attempts);
+        message.ack();
+      } catch (error) {
+        console.error(`Feed check failed for ${message.body.url}`, error);
+        message.retry({
+          delaySeconds: FEED_QUEUE_RETRY_BASE_SECONDS * 2 ** message.attempts,
+        });
+      }
+    }
   },
 };
 
@@ -186,45 +597,140 @@ function hexToBytes(hex: string): Uint8Array {
 
 async function handleSubscribe(
   env: Env,
+  ctx: ExecutionContext,
+  interaction: any,
   guildId: string,
   channelId: string,
   options: any[]
 ): Promise<Response> {
-  const urlValue = options.find((opt) => opt.name === "url")?.value as
-    | string
-    | undefined;
-  if (!urlValue) {
+  const targetChannelId = options.find((opt) => opt.name === "channel")
+    ?.value as string | undefined;
+  const targetChannel = targetChannelId
+    ? interaction.data?.resolved?.channels?.[targetChannelId]
+    : undefined;
+  if (
+    targetChannelId &&
+    targetChannelId !== channelId &&
+    !(await canManageChannelFeeds(
+      env,
+      guildId,
+      interaction.member,
+      targetChannel
+    ))
+  ) {
     return jsonResponse({
       type: 4,
       data: {
-        content:
-          "URL を指定してください。例: /feed subscribe https://example.com/rss",
+        content: `<#${targetChannelId}> の購読を管理する権限がありません。そのチャンネルで「チャンネルの管理」権限を持つか、閲覧できるチャンネルで管理ロールを持っている必要があります。`,
         flags: 64,
       },
     });
   }
+  const channelType = targetChannelId
+    ? targetChannel?.type
+    : interaction.channel?.type;
+  ctx.waitUntil(
+    completeDeferredReply(interaction, () =>
+      buildSubscribeReply(env, guildId, channelId, options, channelType)
+    )
+  );
+  return jsonResponse({ type: 5, data: { flags: 64 } });
+}
+
+async function completeDeferredReply(
+  interaction: any,
+  buildReply: () => Promise<Record<string, unknown>>
+): Promise<void> {
+  let reply: Record<string, unknown>;
+  try {
+    reply = await buildReply();
+  } catch (error) {
+    console.error("Deferred interaction failed", error);
+    reply = {
+      content: "処理中にエラーが発生しました。時間をおいて再度お試しください。",
+      embeds: [],
+      components: [],
+    };
+  }
+
+  try {
+    await editOriginalResponse(interaction, reply);
+  } catch (error) {
+    console.error("Failed to edit interaction response", error);
+  }
+}
+
+async function editOriginalResponse(
+  interaction: any,
+  data: Record<string, unknown>
+): Promise<void> {
+  const response = await discordFetch(
+    `https://discord.com/api/v10/webhooks/${interaction.application_id}/${interaction.token}/messages/@original`,
+    {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(data),
+    }
+  );
+
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(
+      `Interaction response edit failed (${response.status}): ${text}`
+    );
+  }
+}
+
+async function buildSubscribeReply(
+  env: Env,
+  guildId: string,
+  interactionChannelId: string,
+  options: any[],
+  channelType?: number
+): Promise<Record<string, unknown>> {
+  const channelId =
+    (options.find((opt) => opt.name === "channel")?.value as
+      | string
+      | undefined) ?? interactionChannelId;
+  const isForum =
+    channelType !== undefined && FORUM_CHANNEL_TYPES.includes(channelType);
+  const urlValue = options.find((opt) => opt.name === "url")?.value as
+    | string
+    | undefined;
+  const styleValue = options.find((opt) => opt.name === "style")?.value as
+    | string
+    | undefined;
+  const messageStyle: MessageStyle = styleValue === "embed" ? "embed" : "plain";
+  const filtersResult = parseFilterOptions(options);
+  if (!filtersResult.ok) {
+    return {
+      content: filtersResult.message,
+      flags: 64,
+    };
+  }
+  if (!urlValue) {
+    return {
+      content:
+        "URL を指定してください。例: /feed subscribe https://example.com/rss",
+      flags: 64,
+    };
+  }
 
   let parsedUrl: URL;
   try {
     parsedUrl = new URL(urlValue);
   } catch {
-    return jsonResponse({
-      type: 4,
-      data: {
-        content: "URL の形式が正しくありません。",
-        flags: 64,
-      },
-    });
+    return {
+      content: "URL の形式が正しくありません。",
+      flags: 64,
+    };
   }
 
   if (parsedUrl.protocol !== "http:" && parsedUrl.protocol !== "https:") {
-    return jsonResponse({
-      type: 4,
-      data: {
-        content: "http/https の URL のみ対応しています。",
-        flags: 64,
-      },
-    });
+    return {
+      content: "http/https の URL のみ対応しています。",
+      flags: 64,
+    };
   }
 
   const existing = await getSubscriptionsForGuild(env, guildId);
@@ -232,83 +738,368 @@ async function handleSubscribe(
     (sub) => sub.channelId === channelId && sub.url === parsedUrl.toString()
   );
   if (duplicate) {
-    return jsonResponse({
-      type: 4,
-      data: {
+    return buildDuplicateReply(duplicate);
+  }
+
+  const quotas = resolveQuotas(await getGuildConfig(env, guildId));
+  const quota = checkSubscriptionQuota(existing, channelId, quotas);
+  if (!quota.ok) {
+    return {
+      embeds: [
+        {
+          title: "購読数の上限に達しました",
+          color: 0xef4444,
+          description: quota.message,
+        },
+      ],
+      flags: 64,
+    };
+  }
+
+  const probe = await probeFeed(parsedUrl.toString());
+  if (!probe.ok && probe.candidates && probe.candidates.length > 0) {
+    const pendingId = ulid();
+    const pending: PendingSubscribe = {
+      guildId,
+      channelId: interactionChannelId,
+      options,
+      candidates: probe.candidates,
+      channelType,
+    };
+    await env.FEED_KV.put(
+      pendingSubscribeKey(pendingId),
+      JSON.stringify(pending),
+      {
+        expirationTtl: PENDING_SUBSCRIBE_TTL_SECONDS,
+      }
+    );
+    return {
+      content: `${probe.message}購読するフィードを選択してください。`,
+      components: [
+        {
+          type: 1,
+          components: [
+            {
+              type: 3,
+              custom_id: `feed:pick:${pendingId}`,
+              placeholder: "フィードを選択",
+              options: probe.candidates.map((candidate, index) => ({
+                label: truncateText(candidate.title ?? candidate.url, 100),
+                description: candidate.title
+                  ? truncateText(candidate.url, 100)
+                  : undefined,
+                value: String(index),
+              })),
+            },
+          ],
+        },
+      ],
+      flags: 64,
+    };
+  }
+  if (!probe.ok) {
+    return {
+      embeds: [
+        {
+          title: "購読できませんでした",
+          color: 0xef4444,
+          description: probe.message,
+          fields: [{ name: "URL", value: parsedUrl.toString() }],
+        },
+      ],
+      flags: 64,
+    };
+  }
+
+  const webhookUrl = options.find((opt) => opt.name === "webhook_url")
+    ?.value as string | undefined;
+  const useWebhook =
+    Boolean(webhookUrl) ||
+    options.find((opt) => opt.name === "webhook")?.value === true;
+  const publish = options.find((opt) => opt.name === "publish")?.value === true;
+  if (publish && channelType !== ANNOUNCEMENT_CHANNEL_TYPE) {
+    return {
+      embeds: [
+        {
+          title: "購読できませんでした",
+          color: 0xef4444,
+          description:
+            "publish はアナウンスチャンネルでのみ使えます。publish を指定せずに再度お試しください。",
+          fields: [{ name: "URL", value: parsedUrl.toString() }],
+        },
+      ],
+      flags: 64,
+    };
+  }
+
+  let delivery: DeliveryTarget | undefined;
+  if (isForum) {
+    if (useWebhook) {
+      return {
         embeds: [
           {
-            title: "すでに購読済み",
-            color: 0xf59e0b,
-            fields: [
-              { name: "チャンネル", value: `<#${channelId}>`, inline: true },
-              { name: "ID", value: duplicate.id, inline: true },
-              { name: "URL", value: duplicate.url },
-            ],
+            title: "購読できませんでした",
+            color: 0xef4444,
+            description:
+              "フォーラムチャンネルでは Webhook 配信は使えません。webhook を指定せずに再度お試しください。",
+            fields: [{ name: "URL", value: parsedUrl.toString() }],
           },
         ],
         flags: 64,
-      },
-    });
-  }
-
-  const probe = await probeFeed(parsedUrl.toString());
-  if (!probe.ok) {
-    return jsonResponse({
-      type: 4,
-      data: {
+      };
+    }
+    const tags = await resolveForumTags(
+      env,
+      channelId,
+      options.find((opt) => opt.name === "tags")?.value as string | undefined
+    );
+    if (!tags.ok) {
+      return {
         embeds: [
           {
             title: "購読できませんでした",
             color: 0xef4444,
-            description: probe.message,
+            description: tags.message,
             fields: [{ name: "URL", value: parsedUrl.toString() }],
           },
         ],
         flags: 64,
-      },
-    });
+      };
+    }
+    delivery = { type: "forum", tagIds: tags.tagIds };
+  } else if (useWebhook) {
+    const target = await resolveWebhookTarget(env, channelId, webhookUrl);
+    if (!target.ok) {
+      return {
+        embeds: [
+          {
+            title: "購読できませんでした",
+            color: 0xef4444,
+            description: target.message,
+            fields: [{ name: "URL", value: parsedUrl.toString() }],
+          },
+        ],
+        flags: 64,
+      };
+    }
+    delivery = target.delivery;
+  }
+
+  const feedUrl = probe.url;
+  if (feedUrl !== parsedUrl.toString()) {
+    const discoveredDuplicate = existing.find(
+      (sub) => sub.channelId === channelId && sub.url === feedUrl
+    );
+    if (discoveredDuplicate) {
+      return buildDuplicateReply(discoveredDuplicate);
+    }
   }
 
   const normalizedTitle = normalizeFeedTitle(probe.title);
-  const subscription: Subscription = {
-    id: ulid(),
+  const subscription = await createSubscription(env, {
     guildId,
     channelId,
-    url: parsedUrl.toString(),
-    createdAt: Date.now(),
+    url: feedUrl,
     feedTitle: normalizedTitle,
-    errorCount: 0,
-  };
+    messageStyle,
+    filters: filtersResult.filters,
+    delivery,
+    threadPerItem:
+      !isForum && options.find((opt) => opt.name === "thread")?.value === true
+        ? true
+        : undefined,
+    publish: publish || undefined,
+    pollIntervalMinutes: initialPollInterval(quotas),
+    feedImage: probe.image,
+    feedFormat: probe.format,
+  });
+
+  return {
+    embeds: [
+      {
+        title: "購読を追加しました",
+        color: 0x22c55e,
+        fields: [
+          { name: "チャンネル", value: `<#${channelId}>`, inline: true },
+          { name: "ID", value: subscription.id, inline: true },
+          { name: "形式", value: messageStyle, inline: true },
+          {
+            name: "配信",
+            value: describeDelivery(subscription),
+            inline: true,
+          },
+          { name: "URL", value: subscription.url },
+          ...describeFilters(subscription.filters),
+        ],
+        footer: normalizedTitle
+          ? { text: `Feed: ${normalizedTitle}` }
+          : undefined,
+      },
+    ],
+    flags: 64,
+  };
+}
+
+async function createSubscription(
+  env: Env,
+  fields: Omit<Subscription, "id" | "createdAt" | "errorCount">
+): Promise<Subscription> {
+  const subscription: Subscription = {
+    id: ulid(),
+    createdAt: Date.now(),
+    errorCount: 0,
+    ...fields,
+  };
 
   await env.FEED_KV.put(
-    subscriptionKey(guildId, subscription.id),
+    subscriptionKey(subscription.guildId, subscription.id),
     JSON.stringify(subscription)
   );
-  await addToIndex(env, guildId, subscription.id);
+  await addToIndex(env, subscription.guildId, subscription.id);
+  return subscription;
+}
 
-  return jsonResponse({
-    type: 4,
-    data: {
-      embeds: [
-        {
-          title: "購読を追加しました",
-          color: 0x22c55e,
-          fields: [
-            { name: "チャンネル", value: `<#${channelId}>`, inline: true },
-            { name: "ID", value: subscription.id, inline: true },
-            { name: "URL", value: subscription.url },
-          ],
-          footer: normalizedTitle
-            ? { text: `Feed: ${normalizedTitle}` }
-            : undefined,
-        },
-      ],
-      flags: 64,
-    },
-  });
+async function deleteSubscription(
+  env: Env,
+  subscription: Subscription
+): Promise<void> {
+  await env.FEED_KV.delete(
+    subscriptionKey(subscription.guildId, subscription.id)
+  );
+  await env.FEED_KV.delete(seenHistoryKey(subscription.id));
+  await env.FEED_KV.delete(outboxKey(subscription.id));
+  await env.FEED_KV.delete(digestItemsKey(subscription.id));
+  await removeFromIndex(env, subscription.guildId, subscription.id);
+}
+
+function buildDuplicateReply(duplicate: Subscription): Record<string, unknown> {
+  return {
+    embeds: [
+      {
+        title: "すでに購読済み",
+        color: 0xf59e0b,
+        fields: [
+          {
+            name: "チャンネル",
+            value: `<#${duplicate.channelId}>`,
+            inline: true,
+          },
+          { name: "ID", value: duplicate.id, inline: true },
+          { name: "URL", value: duplicate.url },
+        ],
+      },
+    ],
+    flags: 64,
+  };
+}
+
+async function handleFeedPick(
+  env: Env,
+  ctx: ExecutionContext,
+  interaction: any,
+  pendingId: string
+): Promise<Response> {
+  const pending = await env.FEED_KV.get<PendingSubscribe>(
+    pendingSubscribeKey(pendingId),
+    "json"
+  );
+  if (
+    !pending ||
+    pending.guildId !== interaction.guild_id ||
+    pending.channelId !== interaction.channel_id
+  ) {
+    return jsonResponse({
+      type: 7,
+      data: {
+        content:
+          "選択の有効期限が切れました。もう一度 /feed subscribe を実行してください。",
+        components: [],
+      },
+    });
+  }
+
+  const index = Number((interaction.data?.values ?? [])[0]);
+  const candidate = pending.candidates[index];
+  if (!candidate) {
+    return jsonResponse({
+      type: 7,
+      data: {
+        content: "選択したフィードが見つかりません。",
+        components: [],
+      },
+    });
+  }
+
+  if (!(await canManageFeeds(env, pending.guildId, interaction.member))) {
+    return permissionDeniedResponse();
+  }
+
+  await env.FEED_KV.delete(pendingSubscribeKey(pendingId));
+  const options = [
+    ...pending.options.filter((opt) => opt.name !== "url"),
+    { name: "url", type: 3, value: candidate.url },
+  ];
+  ctx.waitUntil(
+    completeDeferredReply(interaction, async () => ({
+      content: "",
+      ...(await buildSubscribeReply(
+        env,
+        pending.guildId,
+        pending.channelId,
+        options,
+        pending.channelType
+      )),
+      components: [],
+    }))
+  );
+
+  return jsonResponse({ type: 6 });
+}
+
+async function handleAutocomplete(
+  env: Env,
+  interaction: any
+): Promise<Response> {
+  const guildId = interaction.guild_id as string | undefined;
+  const subcommand = (interaction.data?.options ?? [])[0];
+  const focused = (subcommand?.options ?? []).find((opt: any) => opt.focused);
+  if (!guildId || focused?.name !== "subscribed_id") {
+    return jsonResponse({ type: 8, data: { choices: [] } });
+  }
+
+  const query = String(focused.value ?? "")
+    .trim()
+    .toLowerCase();
+  const subscriptions = await getSubscriptionsForGuild(env, guildId);
+  const choices = subscriptions
+    .filter((sub) => matchesSubscriptionQuery(sub, query))
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .slice(0, 25)
+    .map((sub) => {
+      const title = normalizeFeedTitle(sub.feedTitle) ?? "(no title)";
+      return {
+        name: truncateText(`${title} - ${sub.url}`, 100),
+        value: sub.id,
+      };
+    });
+
+  return jsonResponse({ type: 8, data: { choices } });
 }
 
-async function handleList(env: Env, guildId: string): Promise<Response> {
+async function handleList(
+  env: Env,
+  guildId: string,
+  options: any[]
+): Promise<Response> {
+  const view: ListView = {
+    page: 0,
+    channelId: options.find((opt) => opt.name === "channel")?.value as
+      | string
+      | undefined,
+    query: (
+      options.find((opt) => opt.name === "query")?.value as string | undefined
+    )?.trim(),
+  };
   const subscriptions = await getSubscriptionsForGuild(env, guildId);
 
   if (subscriptions.length === 0) {
@@ -321,17 +1112,71 @@ async function handleList(env: Env, guildId: string): Promise<Response> {
     });
   }
 
-  const embeds = buildListEmbeds(subscriptions);
-
   return jsonResponse({
     type: 4,
     data: {
-      embeds,
+      ...buildListPage(subscriptions, view),
       flags: 64,
     },
   });
 }
 
+async function handleListAction(
+  env: Env,
+  interaction: any,
+  customId: string
+): Promise<Response> {
+  const guildId = interaction.guild_id as string | undefined;
+  const parsed = parseListCustomId(customId);
+  if (!guildId || !parsed) {
+    return jsonResponse({
+      type: 7,
+      data: {
+        content: "この操作は使用できません。",
+        embeds: [],
+        components: [],
+      },
+    });
+  }
+
+  const { action, subId, view } = parsed;
+  if (
+    action !== "page" &&
+    !(await canManageFeeds(env, guildId, interaction.member))
+  ) {
+    return permissionDeniedResponse();
+  }
+
+  let notice = "";
+  if (action !== "page" && subId) {
+    const key = subscriptionKey(guildId, subId);
+    const existing = await env.FEED_KV.get<Subscription>(key, "json");
+    if (!existing) {
+      notice = "指定した購読はすでに解除されています。";
+    } else if (action === "unsub") {
+      await deleteSubscription(env, existing);
+      notice = `購読を解除しました: ${
+        normalizeFeedTitle(existing.feedTitle) ?? existing.url
+      }`;
+    } else {
+      existing.pausedByUser = !existing.pausedByUser;
+      await env.FEED_KV.put(key, JSON.stringify(existing));
+      notice = `${
+        existing.pausedByUser ? "一時停止しました" : "再開しました"
+      }: ${normalizeFeedTitle(existing.feedTitle) ?? existing.url}`;
+    }
+  }
+
+  const subscriptions = await getSubscriptionsForGuild(env, guildId);
+  return jsonResponse({
+    type: 7,
+    data: {
+      content: notice,
+      ...buildListPage(subscriptions, view),
+    },
+  });
+}
+
 async function handleUnsubscribe(
   env: Env,
   guildId: string,
@@ -363,8 +1208,7 @@ async function handleUnsubscribe(
     });
   }
 
-  await env.FEED_KV.delete(key);
-  await removeFromIndex(env, guildId, idValue);
+  await deleteSubscription(env, existing);
 
   return jsonResponse({
     type: 4,
@@ -389,197 +1233,2811 @@ async function handleUnsubscribe(
   });
 }
 
-async function runFeedChecks(env: Env): Promise<void> {
-  const keys = await listAllKeys(env.FEED_KV, "sub:g:");
-  if (keys.length === 0) return;
-
-  const subscriptions = await Promise.all(
-    keys.map(async (key) => env.FEED_KV.get<Subscription>(key, "json"))
-  );
-
-  const active = subscriptions.filter((sub): sub is Subscription =>
-    Boolean(sub)
-  );
-
-  for (const subscription of active) {
-    try {
-      await processSubscription(env, subscription);
-    } catch (error) {
-      const message = error instanceof Error ? error.message : "unknown error";
-      subscription.errorCount = (subscription.errorCount ?? 0) + 1;
-      subscription.lastError = message;
-      await env.FEED_KV.put(
-        subscriptionKey(subscription.guildId, subscription.id),
-        JSON.stringify(subscription)
-      );
-    }
-  }
-}
-
-async function processSubscription(
+async function handleEdit(
   env: Env,
-  subscription: Subscription
-): Promise<void> {
-  const response = await fetch(subscription.url, {
-    headers: {
-      "User-Agent": "feed-worker/1.0",
-    },
-  });
-
-  if (!response.ok) {
-    throw new Error(`Feed fetch failed (${response.status})`);
+  guildId: string,
+  options: any[]
+): Promise<Response> {
+  const idValue = options.find((opt) => opt.name === "subscribed_id")?.value as
+    | string
+    | undefined;
+  if (!idValue) {
+    return jsonResponse({
+      type: 4,
+      data: {
+        content: "subscribed_id を指定してください。例: /feed edit 123",
+        flags: 64,
+      },
+    });
   }
 
-  const xmlText = await response.text();
-  const feed = parseFeed(xmlText);
-  if (feed.format === "unknown") {
-    throw new Error("Unsupported feed format");
-  }
-  const normalizedTitle = normalizeFeedTitle(feed.title);
-  const titleChanged =
-    normalizedTitle && normalizedTitle !== subscription.feedTitle;
-  if (titleChanged) {
-    subscription.feedTitle = normalizedTitle;
+  const key = subscriptionKey(guildId, idValue);
+  const existing = await env.FEED_KV.get<Subscription>(key, "json");
+  if (!existing) {
+    return jsonResponse({
+      type: 4,
+      data: {
+        content: "指定した ID が見つかりません。",
+        flags: 64,
+      },
+    });
   }
 
-  if (!feed.items.length) {
-    if (titleChanged) {
-      await env.FEED_KV.put(
-        subscriptionKey(subscription.guildId, subscription.id),
-        JSON.stringify(subscription)
-      );
-    }
-    return;
+  const filtersResult = parseFilterOptions(options, existing.filters);
+  if (!filtersResult.ok) {
+    return jsonResponse({
+      type: 4,
+      data: {
+        content: filtersResult.message,
+        flags: 64,
+      },
+    });
   }
 
-  const { newItems, latestItem } = diffItems(
-    feed.items,
-    subscription.lastItemId,
-    subscription.lastItemDate,
-    subscription.lastItemKey
+  const scheduleResult = parseScheduleOptions(
+    options,
+    existing,
+    resolveQuotas(await getGuildConfig(env, guildId))
   );
-
-  if (newItems.length === 0) {
-    const latestChanged =
-      latestItem &&
-      (latestItem.id !== subscription.lastItemId ||
-        latestItem.key !== subscription.lastItemKey);
-    if (latestChanged && latestItem) {
-      subscription.lastItemId = latestItem.id;
-      subscription.lastItemDate = latestItem.date;
-      subscription.lastItemKey = latestItem.key;
-    }
-    if (latestItem || titleChanged) {
-      await env.FEED_KV.put(
-        subscriptionKey(subscription.guildId, subscription.id),
-        JSON.stringify(subscription)
-      );
-    }
-    return;
+  if (!scheduleResult.ok) {
+    return jsonResponse({
+      type: 4,
+      data: {
+        content: scheduleResult.message,
+        flags: 64,
+      },
+    });
   }
 
-  for (const item of newItems) {
-    const content = formatDiscordMessage(item);
-    await sendDiscordMessage(env, subscription.channelId, content);
+  const languageResult = parseLanguageOptions(options, existing);
+  if (!languageResult.ok) {
+    return jsonResponse({
+      type: 4,
+      data: {
+        content: languageResult.message,
+        flags: 64,
+      },
+    });
   }
-
-  const lastPosted = newItems[newItems.length - 1];
-  subscription.lastItemId = lastPosted.id;
-  subscription.lastItemDate = lastPosted.date;
-  subscription.lastItemKey = lastPosted.key;
-  subscription.errorCount = 0;
-  subscription.lastError = undefined;
-  await env.FEED_KV.put(
-    subscriptionKey(subscription.guildId, subscription.id),
-    JSON.stringify(subscription)
-  );
-}
-
-function formatDiscordMessage(item: FeedItem): string {
-  const title = item.title ? item.title.trim() : "(no title)";
-  const link = item.link ? item.link.trim() : "";
-  const base = link ? `${title}\n${link}` : title;
-  return base.length > 1900 ? base.slice(0, 1897) + "..." : base;
-}
-
-async function sendDiscordMessage(
-  env: Env,
-  channelId: string,
-  content: string
-): Promise<void> {
-  const response = await fetch(
-    `https://discord.com/api/v10/channels/${channelId}/messages`,
-    {
-      method: "POST",
-      headers: {
-        Authorization: `Bot ${env.DISCORD_BOT_TOKEN}`,
-        "Content-Type": "application/json",
+  if (
+    languageResult.translateTo &&
+    languageResult.translateTo !== existing.translateTo &&
+    !resolveTranslator(env)
+  ) {
+    return jsonResponse({
+      type: 4,
+      data: {
+        content:
+          "翻訳機能が有効になっていません。Workers AI の AI バインディングを設定してください。",
+        flags: 64,
       },
-      body: JSON.stringify({ content }),
-    }
-  );
-
-  if (!response.ok) {
-    const text = await response.text();
-    throw new Error(`Discord post failed (${response.status}): ${text}`);
+    });
   }
-}
-
-function normalizeFeedTitle(value?: string): string | undefined {
-  if (!value) return undefined;
-  const trimmed = value.replace(/\s+/g, " ").trim();
-  if (!trimmed) return undefined;
-  return trimmed.length > 200 ? `${trimmed.slice(0, 197)}...` : trimmed;
-}
-
-function parseFeed(xml: string): ParsedFeed {
-  const parsed = xmlParser.parse(xml);
 
-  if (parsed?.rss?.channel) {
-    const channel = parsed.rss.channel;
-    const items = ensureArray(channel.item)
-      .map(normalizeRssItem)
-      .filter(Boolean) as FeedItem[];
-    assignItemKeys(items);
-    return { items, format: "rss", title: pickText(channel.title) };
+  const styleValue = options.find((opt) => opt.name === "style")?.value as
+    | string
+    | undefined;
+  if (styleValue === "plain" || styleValue === "embed") {
+    existing.messageStyle = styleValue;
   }
+  existing.filters = filtersResult.filters;
+  existing.pollIntervalMinutes = scheduleResult.pollIntervalMinutes;
+  existing.quietHours = scheduleResult.quietHours;
+  existing.translateTo = languageResult.translateTo;
+  existing.languages = languageResult.languages;
 
-  if (parsed?.feed) {
-    const entries = ensureArray(parsed.feed.entry);
-    const items = entries.map(normalizeAtomEntry).filter(Boolean) as FeedItem[];
-    assignItemKeys(items);
-    return { items, format: "atom", title: pickText(parsed.feed.title) };
+  const threadValue = options.find((opt) => opt.name === "thread")?.value;
+  if (typeof threadValue === "boolean" && existing.delivery?.type !== "forum") {
+    existing.threadPerItem = threadValue || undefined;
   }
-
-  if (parsed?.["rdf:RDF"]) {
-    const items = ensureArray(parsed["rdf:RDF"].item)
+  const tagsValue = options.find((opt) => opt.name === "tags")?.value as
+    | string
+    | undefined;
+  if (tagsValue !== undefined) {
+    if (existing.delivery?.type !== "forum") {
+      return jsonResponse({
+        type: 4,
+        data: {
+          content: "tags はフォーラムチャンネルの購読でのみ指定できます。",
+          flags: 64,
+        },
+      });
+    }
+    const tags = await resolveForumTags(env, existing.channelId, tagsValue);
+    if (!tags.ok) {
+      return jsonResponse({
+        type: 4,
+        data: {
+          content: tags.message,
+          flags: 64,
+        },
+      });
+    }
+    existing.delivery = { type: "forum", tagIds: tags.tagIds };
+  }
+  const publishValue = options.find((opt) => opt.name === "publish")?.value;
+  if (publishValue === true && !existing.publish) {
+    const result = await fetchChannel(env, existing.channelId);
+    if (!result.ok || result.channel.type !== ANNOUNCEMENT_CHANNEL_TYPE) {
+      return jsonResponse({
+        type: 4,
+        data: {
+          content: result.ok
+            ? "publish はアナウンスチャンネルでのみ使えます。"
+            : `チャンネル情報を取得できませんでした（HTTP ${result.status}）。`,
+          flags: 64,
+        },
+      });
+    }
+    existing.publish = true;
+  } else if (publishValue === false) {
+    existing.publish = undefined;
+  }
+
+  await env.FEED_KV.put(key, JSON.stringify(existing));
+
+  return jsonResponse({
+    type: 4,
+    data: {
+      embeds: [
+        {
+          title: "購読を更新しました",
+          color: 0x22c55e,
+          fields: [
+            {
+              name: "チャンネル",
+              value: `<#${existing.channelId}>`,
+              inline: true,
+            },
+            { name: "ID", value: existing.id, inline: true },
+            {
+              name: "形式",
+              value: existing.messageStyle ?? "plain",
+              inline: true,
+            },
+            {
+              name: "配信",
+              value: describeDelivery(existing),
+              inline: true,
+            },
+            { name: "URL", value: existing.url },
+            ...describeFilters(existing.filters),
+            ...describeSchedule(existing),
+            ...describeLanguage(existing),
+          ],
+        },
+      ],
+      flags: 64,
+    },
+  });
+}
+
+async function handleTemplate(
+  env: Env,
+  guildId: string,
+  options: any[]
+): Promise<Response> {
+  const idValue = options.find((opt) => opt.name === "subscribed_id")?.value as
+    | string
+    | undefined;
+  if (!idValue) {
+    return jsonResponse({
+      type: 4,
+      data: {
+        content: "subscribed_id を指定してください。例: /feed template 123",
+        flags: 64,
+      },
+    });
+  }
+
+  const key = subscriptionKey(guildId, idValue);
+  const existing = await env.FEED_KV.get<Subscription>(key, "json");
+  if (!existing) {
+    return jsonResponse({
+      type: 4,
+      data: {
+        content: "指定した ID が見つかりません。",
+        flags: 64,
+      },
+    });
+  }
+
+  const textValue = options.find((opt) => opt.name === "template")?.value as
+    | string
+    | undefined;
+  const prefixValue = options.find((opt) => opt.name === "prefix")?.value as
+    | string
+    | undefined;
+  const roleValue = options.find((opt) => opt.name === "role")?.value as
+    | string
+    | undefined;
+  const reset = options.find((opt) => opt.name === "reset")?.value === true;
+
+  const template: MessageTemplate = reset ? {} : { ...existing.template };
+  if (textValue !== undefined) {
+    const text = textValue.replace(/\\n/g, "\n").trim();
+    const unknown = findUnknownPlaceholders(text);
+    if (unknown.length > 0) {
+      const available = TEMPLATE_PLACEHOLDERS.map((name) => `{${name}}`);
+      return jsonResponse({
+        type: 4,
+        data: {
+          content: [
+            `未対応のプレースホルダーがあります: ${unknown.join(", ")}`,
+            `使用できるもの: ${available.join(" ")}`,
+          ].join("\n"),
+          flags: 64,
+        },
+      });
+    }
+    template.text = text && text !== "-" ? text : undefined;
+  }
+  if (prefixValue !== undefined) {
+    const prefix = prefixValue.trim();
+    template.prefix = prefix && prefix !== "-" ? prefix : undefined;
+  }
+  if (roleValue) {
+    template.roleId = roleValue;
+  }
+
+  existing.template =
+    template.text || template.prefix || template.roleId ? template : undefined;
+  await env.FEED_KV.put(key, JSON.stringify(existing));
+
+  return jsonResponse({
+    type: 4,
+    data: {
+      embeds: [
+        {
+          title: existing.template
+            ? "テンプレートを更新しました"
+            : "テンプレートを解除しました",
+          color: 0x22c55e,
+          fields: [
+            { name: "ID", value: existing.id, inline: true },
+            ...(existing.template?.roleId
+              ? [
+                  {
+                    name: "ロール",
+                    value: `<@&${existing.template.roleId}>`,
+                    inline: true,
+                  },
+                ]
+              : []),
+            ...(existing.template?.prefix
+              ? [
+                  {
+                    name: "プレフィックス",
+                    value: existing.template.prefix,
+                    inline: true,
+                  },
+                ]
+              : []),
+            {
+              name: "テンプレート",
+              value: truncateField(
+                existing.template?.text
+                  ? `\`\`\`\n${existing.template.text}\n\`\`\``
+                  : "(既定)"
+              ),
+            },
+          ],
+        },
+      ],
+      flags: 64,
+    },
+  });
+}
+
+async function handleMention(
+  env: Env,
+  guildId: string,
+  options: any[]
+): Promise<Response> {
+  const idValue = options.find((opt) => opt.name === "subscribed_id")?.value as
+    | string
+    | undefined;
+  if (!idValue) {
+    return jsonResponse({
+      type: 4,
+      data: {
+        content: "subscribed_id を指定してください。例: /feed mention 123",
+        flags: 64,
+      },
+    });
+  }
+
+  const key = subscriptionKey(guildId, idValue);
+  const existing = await env.FEED_KV.get<Subscription>(key, "json");
+  if (!existing) {
+    return jsonResponse({
+      type: 4,
+      data: {
+        content: "指定した ID が見つかりません。",
+        flags: 64,
+      },
+    });
+  }
+
+  const roleId = options.find((opt) => opt.name === "role")?.value as
+    | string
+    | undefined;
+  const userId = options.find((opt) => opt.name === "user")?.value as
+    | string
+    | undefined;
+  const remove = options.find((opt) => opt.name === "remove")?.value === true;
+  if (roleId && userId) {
+    return jsonResponse({
+      type: 4,
+      data: {
+        content: "role と user はどちらか一方だけ指定してください。",
+        flags: 64,
+      },
+    });
+  }
+
+  const updating = Boolean(roleId || userId);
+  if (updating) {
+    const rules = (existing.mentions ?? []).filter((rule) =>
+      roleId ? rule.roleId !== roleId : rule.userId !== userId
+    );
+    if (!remove) {
+      const when = parseFilterRules(
+        options.find((opt) => opt.name === "when")?.value,
+        []
+      );
+      if (!when.ok) {
+        return jsonResponse({
+          type: 4,
+          data: {
+            content: when.message,
+            flags: 64,
+          },
+        });
+      }
+      if (rules.length >= MENTION_RULE_LIMIT) {
+        return jsonResponse({
+          type: 4,
+          data: {
+            content: `メンションルールは 1 つの購読につき ${MENTION_RULE_LIMIT} 件までです。`,
+            flags: 64,
+          },
+        });
+      }
+      rules.push(
+        roleId ? { roleId, when: when.rules } : { userId, when: when.rules }
+      );
+    }
+    existing.mentions = rules.length > 0 ? rules : undefined;
+    await env.FEED_KV.put(key, JSON.stringify(existing));
+  }
+
+  return jsonResponse({
+    type: 4,
+    data: {
+      embeds: [
+        {
+          title: updating
+            ? "メンションルールを更新しました"
+            : "メンションルール",
+          color: updating ? 0x22c55e : 0x3b82f6,
+          fields: [
+            { name: "ID", value: existing.id, inline: true },
+            {
+              name: "ルール",
+              value: truncateField(describeMentionRules(existing.mentions)),
+            },
+          ],
+        },
+      ],
+      allowed_mentions: { parse: [] },
+      flags: 64,
+    },
+  });
+}
+
+async function handleResume(
+  env: Env,
+  guildId: string,
+  options: any[]
+): Promise<Response> {
+  const idValue = options.find((opt) => opt.name === "subscribed_id")?.value as
+    | string
+    | undefined;
+  if (!idValue) {
+    return jsonResponse({
+      type: 4,
+      data: {
+        content: "subscribed_id を指定してください。例: /feed resume 123",
+        flags: 64,
+      },
+    });
+  }
+
+  const key = subscriptionKey(guildId, idValue);
+  const existing = await env.FEED_KV.get<Subscription>(key, "json");
+  if (!existing) {
+    return jsonResponse({
+      type: 4,
+      data: {
+        content: "指定した ID が見つかりません。",
+        flags: 64,
+      },
+    });
+  }
+
+  markHealthy(existing);
+  existing.pausedByUser = undefined;
+  await env.FEED_KV.put(key, JSON.stringify(existing));
+
+  return jsonResponse({
+    type: 4,
+    data: {
+      embeds: [
+        {
+          title: "フィードの取得を再開しました",
+          color: 0x22c55e,
+          fields: [
+            {
+              name: "チャンネル",
+              value: `<#${existing.channelId}>`,
+              inline: true,
+            },
+            { name: "ID", value: existing.id, inline: true },
+            { name: "URL", value: existing.url },
+          ],
+        },
+      ],
+      flags: 64,
+    },
+  });
+}
+
+function handleImport(
+  env: Env,
+  ctx: ExecutionContext,
+  interaction: any,
+  guildId: string,
+  channelId: string,
+  options: any[]
+): Response {
+  const attachmentId = options.find((opt) => opt.name === "file")?.value as
+    | string
+    | undefined;
+  const attachment = attachmentId
+    ? interaction.data?.resolved?.attachments?.[attachmentId]
+    : undefined;
+  if (!attachment?.url) {
+    return jsonResponse({
+      type: 4,
+      data: {
+        content:
+          "OPML ファイルを添付してください。例: /feed import file:feeds.opml",
+        flags: 64,
+      },
+    });
+  }
+  if (typeof attachment.size === "number" && attachment.size > OPML_MAX_BYTES) {
+    return jsonResponse({
+      type: 4,
+      data: {
+        content: "OPML ファイルが大きすぎます（上限 1MB）。",
+        flags: 64,
+      },
+    });
+  }
+
+  ctx.waitUntil(
+    completeDeferredReply(interaction, () =>
+      buildImportReply(env, guildId, channelId, attachment.url)
+    )
+  );
+  return jsonResponse({ type: 5, data: { flags: 64 } });
+}
+
+async function buildImportReply(
+  env: Env,
+  guildId: string,
+  channelId: string,
+  attachmentUrl: string
+): Promise<Record<string, unknown>> {
+  const deadline = Date.now() + OPML_IMPORT_DEADLINE_MS;
+  const response = await fetch(attachmentUrl);
+  if (!response.ok) {
+    return {
+      content: `OPML ファイルの取得に失敗しました（HTTP ${response.status}）。`,
+    };
+  }
+
+  let outlines: OpmlOutline[];
+  try {
+    outlines = parseOpml(await response.text());
+  } catch {
+    return { content: "OPML の解析に失敗しました。" };
+  }
+  if (outlines.length === 0) {
+    return { content: "OPML に xmlUrl を持つフィードが見つかりませんでした。" };
+  }
+
+  const existing = await getSubscriptionsForGuild(env, guildId);
+  const quotas = resolveQuotas(await getGuildConfig(env, guildId));
+  const subscribedUrls = new Set(
+    existing.filter((sub) => sub.channelId === channelId).map((sub) => sub.url)
+  );
+  const added: string[] = [];
+  const skipped: string[] = [];
+  const failed: string[] = [];
+
+  const targets = outlines.slice(0, OPML_IMPORT_LIMIT);
+  for (const outline of outlines.slice(OPML_IMPORT_LIMIT)) {
+    failed.push(
+      `${outline.url}\n└ 一度に取り込める上限（${OPML_IMPORT_LIMIT} 件）を超えました`
+    );
+  }
+
+  for (let i = 0; i < targets.length; i += OPML_IMPORT_CONCURRENCY) {
+    if (Date.now() > deadline) {
+      for (const outline of targets.slice(i)) {
+        failed.push(
+          `${outline.url}\n└ 時間内に確認できませんでした（もう一度取り込むと続きから追加します）`
+        );
+      }
+      break;
+    }
+    const chunk = targets.slice(i, i + OPML_IMPORT_CONCURRENCY);
+    const probes = await Promise.all(
+      chunk.map((outline) =>
+        subscribedUrls.has(outline.url) ? null : probeFeed(outline.url)
+      )
+    );
+
+    for (let j = 0; j < chunk.length; j += 1) {
+      const outline = chunk[j];
+      const probe = probes[j];
+      if (!probe || (probe.ok && subscribedUrls.has(probe.url))) {
+        skipped.push(outline.url);
+        continue;
+      }
+      if (!probe.ok) {
+        failed.push(`${outline.url}\n└ ${probe.message}`);
+        continue;
+      }
+      const quota = checkSubscriptionQuota(existing, channelId, quotas);
+      if (!quota.ok) {
+        failed.push(`${outline.url}\n└ ${quota.message}`);
+        continue;
+      }
+
+      const subscription = await createSubscription(env, {
+        guildId,
+        channelId,
+        url: probe.url,
+        feedTitle: normalizeFeedTitle(probe.title ?? outline.title),
+        messageStyle: "plain",
+        pollIntervalMinutes: initialPollInterval(quotas),
+        feedImage: probe.image,
+        feedFormat: probe.format,
+      });
+      existing.push(subscription);
+      subscribedUrls.add(probe.url);
+      added.push(probe.url);
+    }
+  }
+
+  return {
+    content: "",
+    embeds: [
+      {
+        title: "OPML を取り込みました",
+        color: failed.length > 0 ? 0xf59e0b : 0x22c55e,
+        fields: [
+          { name: "チャンネル", value: `<#${channelId}>`, inline: true },
+          { name: "追加", value: String(added.length), inline: true },
+          { name: "購読済み", value: String(skipped.length), inline: true },
+          { name: "失敗", value: String(failed.length), inline: true },
+          ...(added.length > 0
+            ? [
+                {
+                  name: "追加したフィード",
+                  value: truncateField(added.join("\n")),
+                },
+              ]
+            : []),
+          ...(failed.length > 0
+            ? [
+                {
+                  name: "失敗したフィード",
+                  value: truncateField(failed.join("\n")),
+                },
+              ]
+            : []),
+        ],
+      },
+    ],
+  };
+}
+
+function parseOpml(text: string): OpmlOutline[] {
+  const parsed = xmlParser.parse(text);
+  if (!parsed?.opml) {
+    throw new Error("Not an OPML document");
+  }
+
+  const outlines: OpmlOutline[] = [];
+  const seen = new Set<string>();
+  const visit = (nodes: unknown) => {
+    for (const node of ensureArray(nodes) as any[]) {
+      if (!node || typeof node !== "object") continue;
+      const xmlUrl = pickText(node.xmlUrl ?? node.xmlurl)?.trim();
+      if (xmlUrl && isHttpUrl(xmlUrl) && !seen.has(xmlUrl)) {
+        seen.add(xmlUrl);
+        outlines.push({
+          url: xmlUrl,
+          title: pickText(node.title ?? node.text),
+        });
+      }
+      visit(node.outline);
+    }
+  };
+  visit(parsed.opml.body?.outline);
+  return outlines;
+}
+
+async function handleExport(env: Env, guildId: string): Promise<Response> {
+  const subscriptions = await getSubscriptionsForGuild(env, guildId);
+  if (subscriptions.length === 0) {
+    return jsonResponse({
+      type: 4,
+      data: {
+        content: "このサーバーには購読がありません。",
+        flags: 64,
+      },
+    });
+  }
+
+  const filename = `feeds-${guildId}.opml`;
+  const form = new FormData();
+  form.append(
+    "payload_json",
+    JSON.stringify({
+      type: 4,
+      data: {
+        content: `${subscriptions.length} 件の購読を書き出しました。`,
+        attachments: [{ id: 0, filename }],
+        flags: 64,
+      },
+    })
+  );
+  form.append(
+    "files[0]",
+    new Blob([buildOpml(subscriptions)], { type: "text/x-opml" }),
+    filename
+  );
+  return new Response(form);
+}
+
+function buildOpml(subscriptions: Subscription[]): string {
+  const grouped = new Map<string, Subscription[]>();
+  for (const sub of subscriptions) {
+    const list = grouped.get(sub.channelId) ?? [];
+    list.push(sub);
+    grouped.set(sub.channelId, list);
+  }
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    "  <head>",
+    "    <title>feed-worker subscriptions</title>",
+    `    <dateCreated>${new Date().toUTCString()}</dateCreated>`,
+    "  </head>",
+    "  <body>",
+  ];
+  for (const [channelId, subs] of grouped.entries()) {
+    lines.push(`    <outline text="#${channelId}" title="#${channelId}">`);
+    const sorted = [...subs].sort((a, b) => a.createdAt - b.createdAt);
+    for (const sub of sorted) {
+      const title = escapeXml(normalizeFeedTitle(sub.feedTitle) ?? sub.url);
+      const type = opmlFeedType(sub.feedFormat);
+      const typeAttribute = type ? ` type="${type}"` : "";
+      const xmlUrl = escapeXml(sub.url);
+      lines.push(
+        `      <outline${typeAttribute} text="${title}" title="${title}" xmlUrl="${xmlUrl}"/>`
+      );
+    }
+    lines.push("    </outline>");
+  }
+  lines.push("  </body>", "</opml>", "");
+  return lines.join("\n");
+}
+
+function opmlFeedType(format: Subscription["feedFormat"]): string | undefined {
+  if (format === "rss" || format === "rdf") return "rss";
+  if (format === "atom" || format === "json") return format;
+  return undefined;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+async function handleDigest(
+  env: Env,
+  guildId: string,
+  channelId: string,
+  options: any[]
+): Promise<Response> {
+  const key = digestConfigKey(channelId);
+  const frequency = options.find((opt) => opt.name === "frequency")?.value as
+    | string
+    | undefined;
+  const existing = await env.FEED_KV.get<DigestConfig>(key, "json");
+
+  if (frequency === "off") {
+    await env.FEED_KV.delete(key);
+    return jsonResponse({
+      type: 4,
+      data: {
+        content:
+          "このチャンネルのダイジェストを解除しました。以降の新着記事は 1 件ずつ投稿されます。",
+        flags: 64,
+      },
+    });
+  }
+
+  if (!frequency && !existing) {
+    return jsonResponse({
+      type: 4,
+      data: {
+        content:
+          "このチャンネルにはダイジェストが設定されていません。例: /feed digest frequency:daily time:09:00",
+        flags: 64,
+      },
+    });
+  }
+
+  const time =
+    (options.find((opt) => opt.name === "time")?.value as string | undefined) ??
+    existing?.time ??
+    "09:00";
+  if (parseClockTime(time) === null) {
+    return jsonResponse({
+      type: 4,
+      data: {
+        content: "time は `09:00` のように HH:MM で指定してください。",
+        flags: 64,
+      },
+    });
+  }
+  const timeZone =
+    (options.find((opt) => opt.name === "timezone")?.value as
+      | string
+      | undefined) ??
+    existing?.timeZone ??
+    DEFAULT_TIME_ZONE;
+  if (!isValidTimeZone(timeZone)) {
+    return jsonResponse({
+      type: 4,
+      data: {
+        content: `タイムゾーンが正しくありません: ${timeZone}（例: Asia/Tokyo）`,
+        flags: 64,
+      },
+    });
+  }
+  const weekdayValue = options.find((opt) => opt.name === "weekday")?.value;
+
+  const config: DigestConfig = {
+    guildId,
+    channelId,
+    frequency:
+      frequency === "weekly" || frequency === "daily"
+        ? frequency
+        : existing?.frequency ?? "daily",
+    time,
+    weekday:
+      typeof weekdayValue === "number" ? weekdayValue : existing?.weekday ?? 1,
+    timeZone,
+    createdAt: existing?.createdAt ?? Date.now(),
+    lastSentAt: existing?.lastSentAt,
+  };
+  if (config.frequency === "daily") config.weekday = undefined;
+  const changed = options.length > 0;
+  if (changed) {
+    await env.FEED_KV.put(key, JSON.stringify(config));
+  }
+
+  const schedule =
+    config.frequency === "weekly"
+      ? `毎週${WEEKDAY_LABELS[config.weekday ?? 1]}曜 ${config.time}`
+      : `毎日 ${config.time}`;
+  return jsonResponse({
+    type: 4,
+    data: {
+      embeds: [
+        {
+          title: changed ? "ダイジェストを設定しました" : "ダイジェスト設定",
+          color: changed ? 0x22c55e : 0x3b82f6,
+          description:
+            "このチャンネルの新着記事は個別に投稿せず、まとめて投稿します。",
+          fields: [
+            { name: "チャンネル", value: `<#${channelId}>`, inline: true },
+            {
+              name: "配信",
+              value: `${schedule} (${config.timeZone})`,
+              inline: true,
+            },
+          ],
+        },
+      ],
+      flags: 64,
+    },
+  });
+}
+
+async function handleConfig(
+  env: Env,
+  interaction: any,
+  guildId: string,
+  options: any[]
+): Promise<Response> {
+  if (
+    !hasPermission(interaction.member, PERMISSION_ADMINISTRATOR) &&
+    !hasPermission(interaction.member, PERMISSION_MANAGE_GUILD)
+  ) {
+    return jsonResponse({
+      type: 4,
+      data: {
+        content: "設定の変更には「サーバーの管理」権限が必要です。",
+        flags: 64,
+      },
+    });
+  }
+
+  const setting = options[0];
+  if (setting?.name !== "manager-role") {
+    return jsonResponse({
+      type: 4,
+      data: {
+        content: "Unknown subcommand.",
+        flags: 64,
+      },
+    });
+  }
+
+  const settingOptions: any[] = setting.options ?? [];
+  const roleId = settingOptions.find((opt) => opt.name === "role")?.value as
+    | string
+    | undefined;
+  const reset =
+    settingOptions.find((opt) => opt.name === "reset")?.value === true;
+  const config = await getGuildConfig(env, guildId);
+
+  if (roleId || reset) {
+    config.managerRoleId = reset ? undefined : roleId;
+    await env.FEED_KV.put(guildConfigKey(guildId), JSON.stringify(config));
+  }
+
+  return jsonResponse({
+    type: 4,
+    data: {
+      embeds: [
+        {
+          title: roleId || reset ? "設定を更新しました" : "現在の設定",
+          color: roleId || reset ? 0x22c55e : 0x3b82f6,
+          fields: [
+            {
+              name: "管理ロール",
+              value: config.managerRoleId
+                ? `<@&${config.managerRoleId}>`
+                : "未設定",
+            },
+          ],
+          footer: {
+            text: "チャンネルの管理・サーバーの管理権限を持つメンバーは常に購読を管理できます",
+          },
+        },
+      ],
+      allowed_mentions: { parse: [] },
+      flags: 64,
+    },
+  });
+}
+
+async function handleQuota(
+  env: Env,
+  interaction: any,
+  guildId: string,
+  options: any[]
+): Promise<Response> {
+  const userId = (interaction.member?.user?.id ?? interaction.user?.id) as
+    | string
+    | undefined;
+  const owners = (env.BOT_OWNER_IDS ?? "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+  if (!userId || !owners.includes(userId)) {
+    return jsonResponse({
+      type: 4,
+      data: {
+        content: "このコマンドはボットの管理者だけが実行できます。",
+        flags: 64,
+      },
+    });
+  }
+
+  const targetGuildId =
+    (options.find((opt) => opt.name === "guild_id")?.value as
+      | string
+      | undefined) ?? guildId;
+  const reset = options.find((opt) => opt.name === "reset")?.value === true;
+  const updates: Partial<GuildQuotas> = {};
+  const optionNames: Record<keyof GuildQuotas, string> = {
+    maxSubscriptions: "max_subscriptions",
+    maxSubscriptionsPerChannel: "max_per_channel",
+    minPollIntervalMinutes: "min_interval",
+  };
+  for (const [field, optionName] of Object.entries(optionNames) as Array<
+    [keyof GuildQuotas, string]
+  >) {
+    const value = options.find((opt) => opt.name === optionName)?.value;
+    if (typeof value === "number" && Number.isInteger(value) && value > 0) {
+      updates[field] = value;
+    }
+  }
+
+  const config = await getGuildConfig(env, targetGuildId);
+  const changed = reset || Object.keys(updates).length > 0;
+  if (changed) {
+    config.quotas = reset ? undefined : { ...config.quotas, ...updates };
+    await env.FEED_KV.put(
+      guildConfigKey(targetGuildId),
+      JSON.stringify(config)
+    );
+  }
+
+  const quotas = resolveQuotas(config);
+  const subscriptions = await getSubscriptionsForGuild(env, targetGuildId);
+  return jsonResponse({
+    type: 4,
+    data: {
+      embeds: [
+        {
+          title: changed ? "上限を更新しました" : "現在の上限",
+          color: changed ? 0x22c55e : 0x3b82f6,
+          fields: [
+            { name: "サーバー", value: targetGuildId },
+            {
+              name: "購読数",
+              value: `${subscriptions.length} / ${quotas.maxSubscriptions}`,
+              inline: true,
+            },
+            {
+              name: "チャンネルごとの購読数",
+              value: String(quotas.maxSubscriptionsPerChannel),
+              inline: true,
+            },
+            {
+              name: "最小取得間隔",
+              value: `${quotas.minPollIntervalMinutes} 分`,
+              inline: true,
+            },
+          ],
+        },
+      ],
+      flags: 64,
+    },
+  });
+}
+
+function resolveQuotas(config: GuildConfig): GuildQuotas {
+  return { ...DEFAULT_GUILD_QUOTAS, ...config.quotas };
+}
+
+function checkSubscriptionQuota(
+  existing: Subscription[],
+  channelId: string,
+  quotas: GuildQuotas
+): { ok: true } | { ok: false; message: string } {
+  if (existing.length >= quotas.maxSubscriptions) {
+    return {
+      ok: false,
+      message: `このサーバーで登録できる購読は ${quotas.maxSubscriptions} 件までです。不要な購読を解除してから再度お試しください。`,
+    };
+  }
+  const inChannel = existing.filter((sub) => sub.channelId === channelId);
+  if (inChannel.length >= quotas.maxSubscriptionsPerChannel) {
+    return {
+      ok: false,
+      message: `1 つのチャンネルに登録できる購読は ${quotas.maxSubscriptionsPerChannel} 件までです。別のチャンネルを使うか、不要な購読を解除してください。`,
+    };
+  }
+  return { ok: true };
+}
+
+function initialPollInterval(quotas: GuildQuotas): number | undefined {
+  return quotas.minPollIntervalMinutes > FEED_CHECK_CADENCE_MINUTES
+    ? quotas.minPollIntervalMinutes
+    : undefined;
+}
+
+async function canManageFeeds(
+  env: Env,
+  guildId: string,
+  member: any
+): Promise<boolean> {
+  if (
+    hasPermission(member, PERMISSION_ADMINISTRATOR) ||
+    hasPermission(member, PERMISSION_MANAGE_CHANNELS) ||
+    hasPermission(member, PERMISSION_MANAGE_GUILD)
+  ) {
+    return true;
+  }
+
+  const config = await getGuildConfig(env, guildId);
+  return Boolean(
+    config.managerRoleId &&
+      Array.isArray(member?.roles) &&
+      member.roles.includes(config.managerRoleId)
+  );
+}
+
+async function canManageChannelFeeds(
+  env: Env,
+  guildId: string,
+  member: any,
+  channel: any
+): Promise<boolean> {
+  const channelMember = { ...member, permissions: channel?.permissions };
+  if (!hasPermission(channelMember, PERMISSION_VIEW_CHANNEL)) return false;
+  return await canManageFeeds(env, guildId, channelMember);
+}
+
+function hasPermission(member: any, permission: bigint): boolean {
+  try {
+    return (BigInt(member?.permissions ?? "0") & permission) === permission;
+  } catch {
+    return false;
+  }
+}
+
+async function getGuildConfig(env: Env, guildId: string): Promise<GuildConfig> {
+  return (
+    (await env.FEED_KV.get<GuildConfig>(guildConfigKey(guildId), "json")) ?? {}
+  );
+}
+
+function permissionDeniedResponse(): Response {
+  return jsonResponse({
+    type: 4,
+    data: {
+      content:
+        "購読を管理する権限がありません。「チャンネルの管理」または「サーバーの管理」権限か、管理ロールが必要です。",
+      flags: 64,
+    },
+  });
+}
+
+async function enqueueFeedChecks(env: Env): Promise<void> {
+  const keys = await listAllKeys(env.FEED_KV, "sub:g:");
+  if (keys.length === 0) return;
+
+  const subscriptions = await Promise.all(
+    keys.map(async (key) => ({
+      key,
+      subscription: await env.FEED_KV.get<Subscription>(key, "json"),
+    }))
+  );
+
+  const now = Date.now();
+  const quotasByGuild = new Map<string, GuildQuotas>();
+  const byFeed = new Map<string, FeedCheckMessage>();
+  for (const { key, subscription } of subscriptions) {
+    if (!subscription) continue;
+    let quotas = quotasByGuild.get(subscription.guildId);
+    if (!quotas) {
+      quotas = resolveQuotas(await getGuildConfig(env, subscription.guildId));
+      quotasByGuild.set(subscription.guildId, quotas);
+    }
+    if (!isDue(subscription, now)) continue;
+    const intervalMinutes = Math.max(
+      subscription.pollIntervalMinutes ?? 0,
+      quotas.minPollIntervalMinutes
+    );
+    const flushing =
+      subscription.heldSince !== undefined &&
+      !isInQuietHours(subscription.quietHours, now);
+    if (!flushing && !isPollDue(subscription, now, intervalMinutes)) {
+      continue;
+    }
+    const feedKey = feedRecordKey(subscription.url);
+    const check = byFeed.get(feedKey) ?? {
+      url: subscription.url,
+      subscriptionKeys: [],
+    };
+    check.subscriptionKeys.push(key);
+    if (intervalMinutes > FEED_CHECK_CADENCE_MINUTES) {
+      check.polledKeys = [...(check.polledKeys ?? []), key];
+    }
+    byFeed.set(feedKey, check);
+  }
+
+  const messages = Array.from(byFeed.values()).map((body) => ({ body }));
+  for (let i = 0; i < messages.length; i += FEED_QUEUE_SEND_BATCH_SIZE) {
+    await env.FEED_QUEUE.sendBatch(
+      messages.slice(i, i + FEED_QUEUE_SEND_BATCH_SIZE)
+    );
+  }
+}
+
+async function processFeedCheck(
+  env: Env,
+  check: FeedCheckMessage,
+  attempt: number
+): Promise<void> {
+  const now = Date.now();
+  const retrying = attempt > 1;
+  const feedKey = feedRecordKey(check.url);
+  const polledKeys = new Set(check.polledKeys ?? []);
+  const subscriptions: Subscription[] = [];
+  const polledIds = new Set<string>();
+  for (const key of check.subscriptionKeys) {
+    const subscription = await env.FEED_KV.get<Subscription>(key, "json");
+    if (!subscription || feedRecordKey(subscription.url) !== feedKey) continue;
+    if (!isDue(subscription, now, retrying)) continue;
+    if (polledKeys.has(key)) {
+      subscription.lastPolledAt = now;
+      polledIds.add(subscription.id);
+    }
+    subscriptions.push(subscription);
+  }
+  if (subscriptions.length === 0) return;
+
+  let result: FeedFetchResult;
+  try {
+    result = await fetchFeed(env, check.url, subscriptions);
+  } catch (error) {
+    if (!retrying) {
+      const message = error instanceof Error ? error.message : "unknown error";
+      for (const subscription of subscriptions) {
+        await recordFailure(env, subscription, message);
+      }
+    }
+    throw error;
+  }
+
+  const failures: string[] = [];
+  for (const subscription of subscriptions) {
+    try {
+      await processSubscription(
+        env,
+        subscription,
+        result,
+        polledIds.has(subscription.id)
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "unknown error";
+      if (!retrying) {
+        await recordFailure(env, subscription, message);
+      }
+      failures.push(`${subscription.id}: ${message}`);
+    }
+  }
+
+  if (failures.length > 0) {
+    throw new Error(failures.join("; "));
+  }
+}
+
+function isDue(
+  subscription: Subscription,
+  now: number,
+  ignoreBackoff = false
+): boolean {
+  if (subscription.status === "disabled" || subscription.pausedByUser) {
+    return false;
+  }
+  if (ignoreBackoff) return true;
+  return !subscription.nextCheckAt || subscription.nextCheckAt <= now;
+}
+
+function isPollDue(
+  subscription: Subscription,
+  now: number,
+  intervalMinutes: number
+): boolean {
+  if (intervalMinutes <= FEED_CHECK_CADENCE_MINUTES) return true;
+  if (!subscription.lastPolledAt) return true;
+  return (
+    now - subscription.lastPolledAt >=
+    intervalMinutes * 60 * 1000 - POLL_INTERVAL_SLACK_MS
+  );
+}
+
+function isInQuietHours(
+  quietHours: QuietHours | undefined,
+  now: number
+): boolean {
+  if (!quietHours) return false;
+  const start = parseClockTime(quietHours.start);
+  const end = parseClockTime(quietHours.end);
+  if (start === null || end === null || start === end) return false;
+
+  const clock = localClock(now, quietHours.timeZone);
+  if (!clock) return false;
+  const current = clock.minutes;
+
+  return start < end
+    ? current >= start && current < end
+    : current >= start || current < end;
+}
+
+function localClock(
+  now: number,
+  timeZone: string
+): { weekday: number; minutes: number } | null {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      weekday: "short",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    }).formatToParts(new Date(now));
+  } catch {
+    return null;
+  }
+  const weekday = DIGEST_WEEKDAYS.indexOf(
+    parts.find((part) => part.type === "weekday")?.value ?? ""
+  );
+  const hour = Number(parts.find((part) => part.type === "hour")?.value);
+  const minute = Number(parts.find((part) => part.type === "minute")?.value);
+  return { weekday, minutes: hour * 60 + minute };
+}
+
+function parseClockTime(value: string): number | null {
+  const match = value.match(/^([01]?\d|2[0-3]):([0-5]\d)$/);
+  if (!match) return null;
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+function healthStatusFor(errorCount: number): SubscriptionStatus {
+  if (errorCount >= HEALTH_DISABLED_THRESHOLD) return "disabled";
+  if (errorCount >= HEALTH_PAUSED_THRESHOLD) return "paused";
+  if (errorCount >= HEALTH_DEGRADED_THRESHOLD) return "degraded";
+  return "active";
+}
+
+function retryDelayMs(errorCount: number): number {
+  const status = healthStatusFor(errorCount);
+  if (status === "paused") return PAUSED_RETRY_DELAY_MS;
+  if (status !== "degraded") return 0;
+  const exponent = errorCount - HEALTH_DEGRADED_THRESHOLD + 1;
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** exponent, RETRY_MAX_DELAY_MS);
+}
+
+async function recordFailure(
+  env: Env,
+  subscription: Subscription,
+  message: string
+): Promise<void> {
+  const previous = subscription.status ?? "active";
+  const now = Date.now();
+  const errorCount = (subscription.errorCount ?? 0) + 1;
+  const status = healthStatusFor(errorCount);
+  const delay = retryDelayMs(errorCount);
+
+  subscription.errorCount = errorCount;
+  subscription.lastError = message;
+  subscription.lastErrorAt = now;
+  subscription.status = status;
+  subscription.nextCheckAt =
+    status !== "disabled" && delay > 0 ? now + delay : undefined;
+  await env.FEED_KV.put(
+    subscriptionKey(subscription.guildId, subscription.id),
+    JSON.stringify(subscription)
+  );
+
+  if (status !== previous && (status === "paused" || status === "disabled")) {
+    try {
+      await deliverMessage(env, subscription, buildHealthNotice(subscription));
+    } catch (error) {
+      console.error("Failed to post health notice", error);
+    }
+  }
+}
+
+function markHealthy(subscription: Subscription): boolean {
+  const changed =
+    (subscription.errorCount ?? 0) > 0 ||
+    (subscription.status ?? "active") !== "active" ||
+    subscription.nextCheckAt !== undefined;
+  subscription.errorCount = 0;
+  subscription.lastError = undefined;
+  subscription.lastErrorAt = undefined;
+  subscription.status = "active";
+  subscription.nextCheckAt = undefined;
+  return changed;
+}
+
+function buildHealthNotice(subscription: Subscription): DiscordMessage {
+  const name = normalizeFeedTitle(subscription.feedTitle) ?? subscription.url;
+  const disabled = subscription.status === "disabled";
+  const fields: Array<{ name: string; value: string; inline?: boolean }> = [
+    { name: "ID", value: subscription.id, inline: true },
+    {
+      name: "連続エラー",
+      value: String(subscription.errorCount ?? 0),
+      inline: true,
+    },
+  ];
+  if (subscription.nextCheckAt) {
+    fields.push({
+      name: "次回の再試行",
+      value: `<t:${Math.floor(subscription.nextCheckAt / 1000)}:R>`,
+      inline: true,
+    });
+  }
+  fields.push(
+    { name: "URL", value: subscription.url },
+    {
+      name: "最後のエラー",
+      value: truncateField(subscription.lastError ?? "unknown error"),
+    }
+  );
+
+  return {
+    embeds: [
+      {
+        title: disabled
+          ? "フィードの取得を停止しました"
+          : "フィードの取得を一時停止しました",
+        color: disabled ? 0xef4444 : 0xf59e0b,
+        description: disabled
+          ? `${name} の取得に失敗し続けているため、購読を無効化しました。\`/feed resume ${subscription.id}\` で再開できます。`
+          : `${name} の取得に失敗し続けているため、再試行の間隔を 24 時間に延ばしました。`,
+        fields,
+      },
+    ],
+  };
+}
+
+async function migrateFeedValidators(
+  env: Env,
+  url: string
+): Promise<FeedRecord> {
+  const key = legacyFeedValidatorsKey(url);
+  const validators = await env.FEED_KV.get<LegacyFeedValidators>(key, "json");
+  if (!validators) return { url };
+  await env.FEED_KV.delete(key);
+  return {
+    url,
+    etag: validators.etag,
+    lastModified: validators.lastModified,
+    validatorsUpdatedAt: validators.updatedAt,
+  };
+}
+
+async function fetchFeed(
+  env: Env,
+  url: string,
+  subscriptions: Subscription[]
+): Promise<FeedFetchResult> {
+  const recordKey = feedRecordKey(url);
+  const record =
+    (await env.FEED_KV.get<FeedRecord>(recordKey, "json")) ??
+    (await migrateFeedValidators(env, url));
+  const validatorsUpdatedAt = record.validatorsUpdatedAt;
+  const conditional =
+    validatorsUpdatedAt !== undefined &&
+    subscriptions.every(
+      (sub) => (sub.lastCheckedAt ?? 0) >= validatorsUpdatedAt
+    );
+
+  const headers: Record<string, string> = {
+    "User-Agent": "feed-worker/1.0",
+  };
+  if (conditional && record.etag) {
+    headers["If-None-Match"] = record.etag;
+  }
+  if (conditional && record.lastModified) {
+    headers["If-Modified-Since"] = record.lastModified;
+  }
+
+  const checkedAt = Date.now();
+  record.lastFetchedAt = checkedAt;
+
+  let response: Response;
+  try {
+    response = await fetch(url, { headers });
+  } catch (error) {
+    record.lastStatus = undefined;
+    record.lastError = error instanceof Error ? error.message : "unknown error";
+    await env.FEED_KV.put(recordKey, JSON.stringify(record));
+    throw error;
+  }
+  record.lastStatus = response.status;
+
+  if (response.status === 304) {
+    record.lastError = undefined;
+    await env.FEED_KV.put(recordKey, JSON.stringify(record));
+    return { notModified: true };
+  }
+
+  if (!response.ok) {
+    record.lastError = `Feed fetch failed (${response.status})`;
+    await env.FEED_KV.put(recordKey, JSON.stringify(record));
+    throw new Error(record.lastError);
+  }
+
+  const text = await response.text();
+  let feed: ParsedFeed;
+  try {
+    feed = parseFeed(text, response.headers.get("Content-Type"));
+  } catch {
+    feed = { items: [], format: "unknown" };
+  }
+  if (feed.format === "unknown") {
+    record.lastError = "Unsupported feed format";
+    await env.FEED_KV.put(recordKey, JSON.stringify(record));
+    throw new Error(record.lastError);
+  }
+
+  const etag = response.headers.get("ETag") ?? undefined;
+  const lastModified = response.headers.get("Last-Modified") ?? undefined;
+  if (
+    (etag || lastModified) &&
+    (etag !== record.etag || lastModified !== record.lastModified)
+  ) {
+    record.etag = etag;
+    record.lastModified = lastModified;
+    record.validatorsUpdatedAt = checkedAt;
+  }
+  record.title = normalizeFeedTitle(feed.title) ?? record.title;
+  record.image = resolveFeedImage(feed, url) ?? record.image;
+  record.format = feed.format;
+  record.lastError = undefined;
+  await env.FEED_KV.put(recordKey, JSON.stringify(record));
+
+  return {
+    notModified: false,
+    feed,
+    title: record.title,
+    image: record.image,
+    checkedAt,
+    validatorsUpdatedAt: record.validatorsUpdatedAt,
+  };
+}
+
+async function processSubscription(
+  env: Env,
+  subscription: Subscription,
+  result: FeedFetchResult,
+  polled = false
+): Promise<void> {
+  const flush = await flushHeldItems(env, subscription);
+  if (flush.failure) {
+    await recordFailure(env, subscription, flush.failure);
+    return;
+  }
+  const flushed = flush.changed;
+
+  if (result.notModified) {
+    if (markHealthy(subscription) || flushed || polled) {
+      await env.FEED_KV.put(
+        subscriptionKey(subscription.guildId, subscription.id),
+        JSON.stringify(subscription)
+      );
+    }
+    return;
+  }
+
+  const { feed, checkedAt } = result;
+  const validatorsPending =
+    result.validatorsUpdatedAt !== undefined &&
+    (subscription.lastCheckedAt ?? 0) < result.validatorsUpdatedAt;
+
+  const titleChanged =
+    (result.title && result.title !== subscription.feedTitle) ||
+    (result.image && result.image !== subscription.feedImage) ||
+    feed.format !== subscription.feedFormat;
+  if (titleChanged) {
+    subscription.feedTitle = result.title ?? subscription.feedTitle;
+    subscription.feedImage = result.image ?? subscription.feedImage;
+    subscription.feedFormat = feed.format;
+  }
+
+  if (!feed.items.length) {
+    const recovered = markHealthy(subscription);
+    if (titleChanged || validatorsPending || recovered || flushed || polled) {
+      subscription.lastCheckedAt = checkedAt;
+      await env.FEED_KV.put(
+        subscriptionKey(subscription.guildId, subscription.id),
+        JSON.stringify(subscription)
+      );
+    }
+    return;
+  }
+
+  const historyKey = seenHistoryKey(subscription.id);
+  const history = await env.FEED_KV.get<SeenHistory>(historyKey, "json");
+  const { newItems, latestItem } = diffItems(feed.items, history, subscription);
+  const matchedItems = await translateItems(
+    env,
+    subscription,
+    newItems.filter(
+      (item) =>
+        matchesFilters(item, subscription.filters) &&
+        matchesLanguages(item, subscription.languages)
+    )
+  );
+
+  const digest =
+    matchedItems.length > 0
+      ? await env.FEED_KV.get<DigestConfig>(
+          digestConfigKey(subscription.channelId),
+          "json"
+        )
+      : null;
+
+  let held = false;
+  let failure: string | undefined;
+  const unread: FeedItem[] = [];
+  if (digest) {
+    await appendDigestItems(env, subscription, matchedItems);
+  } else if (
+    isInQuietHours(subscription.quietHours, checkedAt) ||
+    subscription.heldSince !== undefined
+  ) {
+    if (matchedItems.length > 0) {
+      unread.push(...(await holdItems(env, subscription, matchedItems)));
+      subscription.heldSince ??= checkedAt;
+      held = true;
+    }
+  } else {
+    const delivery = await deliverItems(env, subscription, matchedItems);
+    if (!delivery.ok && delivery.transient) {
+      unread.push(
+        ...(await holdItems(env, subscription, delivery.undelivered))
+      );
+      subscription.heldSince ??= checkedAt;
+      held = true;
+    } else if (!delivery.ok) {
+      unread.push(...delivery.undelivered);
+      failure = delivery.message;
+    }
+  }
+
+  const unreadIds = new Set(unread.map((item) => item.id));
+  const nextHistory = rememberItems(
+    history,
+    feed.items.filter((item) => !unreadIds.has(item.id))
+  );
+  if (!history || !sameHistory(history, nextHistory)) {
+    await env.FEED_KV.put(historyKey, JSON.stringify(nextHistory));
+  }
+
+  const cursorChanged =
+    unread.length === 0 &&
+    latestItem &&
+    (latestItem.id !== subscription.lastItemId ||
+      latestItem.key !== subscription.lastItemKey);
+  if (cursorChanged && latestItem) {
+    subscription.lastItemId = latestItem.id;
+    subscription.lastItemDate = latestItem.date;
+    subscription.lastItemKey = latestItem.key;
+  }
+  if (failure) {
+    subscription.lastCheckedAt = checkedAt;
+    await recordFailure(env, subscription, failure);
+    return;
+  }
+  const recovered = markHealthy(subscription);
+  if (
+    newItems.length > 0 ||
+    cursorChanged ||
+    titleChanged ||
+    validatorsPending ||
+    recovered ||
+    flushed ||
+    held ||
+    polled
+  ) {
+    subscription.lastCheckedAt = checkedAt;
+    await env.FEED_KV.put(
+      subscriptionKey(subscription.guildId, subscription.id),
+      JSON.stringify(subscription)
+    );
+  }
+}
+
+async function translateItems(
+  env: Env,
+  subscription: Subscription,
+  items: FeedItem[]
+): Promise<FeedItem[]> {
+  const target = subscription.translateTo;
+  if (!target || items.length === 0) return items;
+  const translator = resolveTranslator(env);
+  if (!translator) return items;
+
+  const translated: FeedItem[] = [];
+  for (const item of items) {
+    const source = itemLanguage(item);
+    if (!source || source === target) {
+      translated.push(item);
+      continue;
+    }
+    try {
+      const title = await translator.translate(item.title, target, source);
+      const summary = item.summary
+        ? await translator.translate(
+            excerptText(stripHtml(item.summary), TRANSLATION_SUMMARY_LIMIT),
+            target,
+            source
+          )
+        : undefined;
+      translated.push({ ...item, title, summary, language: target });
+    } catch (error) {
+      console.error(
+        `Translation failed for subscription ${subscription.id}`,
+        error
+      );
+      translated.push(item);
+    }
+  }
+  return translated;
+}
+
+function resolveTranslator(env: Env): Translator | undefined {
+  if (env.AI) return createWorkersAiTranslator(env.AI);
+  return undefined;
+}
+
+function createWorkersAiTranslator(ai: WorkersAi): Translator {
+  return {
+    async translate(text, targetLanguage, sourceLanguage) {
+      if (!text.trim()) return text;
+      const result = (await ai.run(TRANSLATION_MODEL, {
+        text,
+        source_lang: sourceLanguage,
+        target_lang: targetLanguage,
+      })) as { translated_text?: string };
+      return result.translated_text?.trim() || text;
+    },
+  };
+}
+
+async function appendDigestItems(
+  env: Env,
+  subscription: Subscription,
+  items: FeedItem[]
+): Promise<void> {
+  const key = digestItemsKey(subscription.id);
+  const queue = (await env.FEED_KV.get<DigestQueue>(key, "json")) ?? {
+    entries: [],
+    dropped: 0,
+  };
+  const entries = [
+    ...queue.entries,
+    ...items.map((item) => ({
+      title: item.title,
+      link: item.link,
+      date: item.date,
+    })),
+  ];
+  const overflow = Math.max(0, entries.length - DIGEST_ITEM_LIMIT);
+  const next: DigestQueue = {
+    entries: entries.slice(overflow),
+    dropped: queue.dropped + overflow,
+  };
+  await env.FEED_KV.put(key, JSON.stringify(next), {
+    expirationTtl: DIGEST_ITEM_TTL_SECONDS,
+  });
+}
+
+async function sendDueDigests(env: Env): Promise<void> {
+  const keys = await listAllKeys(env.FEED_KV, "digestcfg:");
+  const now = Date.now();
+  for (const key of keys) {
+    const config = await env.FEED_KV.get<DigestConfig>(key, "json");
+    if (!config) continue;
+    const occurrence = lastDigestOccurrence(config, now);
+    if (
+      occurrence === null ||
+      (config.lastSentAt ?? config.createdAt) >= occurrence
+    ) {
+      continue;
+    }
+
+    try {
+      await sendDigest(env, config);
+      config.lastSentAt = now;
+      await env.FEED_KV.put(key, JSON.stringify(config));
+    } catch (error) {
+      console.error(`Digest failed for channel ${config.channelId}`, error);
+    }
+  }
+}
+
+function lastDigestOccurrence(
+  config: DigestConfig,
+  now: number
+): number | null {
+  const time = parseClockTime(config.time);
+  const clock = localClock(now, config.timeZone);
+  if (time === null || !clock) return null;
+
+  const minutesSince = clock.minutes - time;
+  let daysBack = minutesSince < 0 ? 1 : 0;
+  if (config.frequency === "weekly") {
+    daysBack = (clock.weekday - (config.weekday ?? 1) + 7) % 7;
+    if (daysBack === 0 && minutesSince < 0) daysBack = 7;
+  }
+  const startOfMinute = now - (now % (60 * 1000));
+  return startOfMinute - (daysBack * 24 * 60 + minutesSince) * 60 * 1000;
+}
+
+async function sendDigest(env: Env, config: DigestConfig): Promise<void> {
+  const subscriptions = (
+    await getSubscriptionsForGuild(env, config.guildId)
+  ).filter((sub) => sub.channelId === config.channelId);
+
+  const shared: DigestPart[] = [];
+  const routed: Array<{ subscription: Subscription; part: DigestPart }> = [];
+  for (const subscription of subscriptions) {
+    const key = digestItemsKey(subscription.id);
+    const queue = await env.FEED_KV.get<DigestQueue>(key, "json");
+    if (!queue || queue.entries.length === 0) continue;
+    const part: DigestPart = {
+      key,
+      section: {
+        feedTitle:
+          normalizeFeedTitle(subscription.feedTitle) ?? subscription.url,
+        entries: queue.entries,
+        dropped: queue.dropped,
+      },
+    };
+    if (
+      subscription.delivery?.type === "webhook" ||
+      subscription.delivery?.type === "forum"
+    ) {
+      routed.push({ subscription, part });
+    } else {
+      shared.push(part);
+    }
+  }
+
+  const failures: string[] = [];
+  const send = async (
+    parts: DigestPart[],
+    deliver: (message: DiscordMessage) => Promise<unknown>
+  ) => {
+    try {
+      await sendDigestParts(env, parts, deliver);
+    } catch (error) {
+      failures.push(error instanceof Error ? error.message : "unknown error");
+    }
+  };
+  if (shared.length > 0) {
+    await send(shared, (message) =>
+      sendDiscordMessage(env, config.channelId, message)
+    );
+  }
+  for (const { subscription, part } of routed) {
+    await send([part], (message) => deliverMessage(env, subscription, message));
+  }
+
+  if (failures.length > 0) {
+    throw new Error(failures.join("; "));
+  }
+}
+
+async function sendDigestParts(
+  env: Env,
+  parts: DigestPart[],
+  deliver: (message: DiscordMessage) => Promise<unknown>
+): Promise<void> {
+  const remaining = parts.map((part) => part.section.entries);
+  for (const { message, sent } of layoutDigestMessages(
+    parts.map((part) => part.section)
+  )) {
+    await deliver(message);
+    for (const [index, count] of sent) {
+      remaining[index] = remaining[index].slice(count);
+      if (remaining[index].length === 0) {
+        await env.FEED_KV.delete(parts[index].key);
+        continue;
+      }
+      const queue: DigestQueue = { entries: remaining[index], dropped: 0 };
+      await env.FEED_KV.put(parts[index].key, JSON.stringify(queue), {
+        expirationTtl: DIGEST_ITEM_TTL_SECONDS,
+      });
+    }
+  }
+}
+
+export function buildDigestMessages(
+  sections: DigestSection[]
+): DiscordMessage[] {
+  return layoutDigestMessages(sections).map((batch) => batch.message);
+}
+
+function layoutDigestMessages(
+  sections: DigestSection[]
+): Array<{ message: DiscordMessage; sent: Map<number, number> }> {
+  const embeds: Array<{
+    title: string;
+    description: string;
+    color: number;
+    section: number;
+    count: number;
+  }> = [];
+  for (const [index, section] of sections.entries()) {
+    const title = truncateText(section.feedTitle, 240);
+    let lines: string[] = [];
+    let length = 0;
+    let count = 0;
+    let part = 0;
+    const push = (line: string) => {
+      if (length + line.length + 1 > EMBED_DESCRIPTION_LIMIT) flush();
+      lines.push(line);
+      length += line.length + 1;
+    };
+    const flush = () => {
+      if (lines.length === 0) return;
+      embeds.push({
+        title: part === 0 ? title : `${title} (続き)`,
+        description: lines.join("\n"),
+        color: 0x3b82f6,
+        section: index,
+        count,
+      });
+      lines = [];
+      length = 0;
+      count = 0;
+      part += 1;
+    };
+    if (section.dropped) {
+      push(`…ほか ${section.dropped} 件（上限を超えた古い記事は省略しました）`);
+    }
+    for (const entry of section.entries) {
+      const label = truncateText(entry.title.replace(/[\[\]]/g, ""), 200);
+      const line = entry.link
+        ? `• [${label}](${escapeLinkTarget(entry.link)})`
+        : `• ${label}`;
+      push(truncateText(line, EMBED_DESCRIPTION_LIMIT));
+      count += 1;
+    }
+    flush();
+  }
+
+  const total = sections.reduce(
+    (sum, section) => sum + section.entries.length + (section.dropped ?? 0),
+    0
+  );
+  const batches: Array<{ message: DiscordMessage; sent: Map<number, number> }> =
+    [];
+  let current: Array<{ title: string; description: string; color: number }> =
+    [];
+  let sent = new Map<number, number>();
+  let size = 0;
+  for (const { section, count, ...embed } of embeds) {
+    const embedSize = embed.title.length + embed.description.length;
+    if (
+      current.length >= EMBEDS_PER_MESSAGE ||
+      size + embedSize > EMBED_TOTAL_LIMIT
+    ) {
+      batches.push({ message: { embeds: current }, sent });
+      current = [];
+      sent = new Map();
+      size = 0;
+    }
+    current.push(embed);
+    sent.set(section, (sent.get(section) ?? 0) + count);
+    size += embedSize;
+  }
+  if (current.length > 0) batches.push({ message: { embeds: current }, sent });
+
+  if (batches.length > 0) {
+    batches[0].message.content = `📰 ダイジェスト（${total} 件）`;
+  }
+  return batches;
+}
+
+function escapeLinkTarget(url: string): string {
+  return url.replace(
+    /[\s()<>]/g,
+    (char) =>
+      `%${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, "0")}`
+  );
+}
+
+async function holdItems(
+  env: Env,
+  subscription: Subscription,
+  items: FeedItem[]
+): Promise<FeedItem[]> {
+  const key = outboxKey(subscription.id);
+  const outbox = (await env.FEED_KV.get<FeedItem[]>(key, "json")) ?? [];
+  const room = Math.max(0, OUTBOX_LIMIT - outbox.length);
+  const accepted = items.slice(0, room);
+  const overflow = items.slice(room);
+  if (accepted.length > 0) {
+    await env.FEED_KV.put(key, JSON.stringify([...outbox, ...accepted]));
+  }
+  if (overflow.length > 0) {
+    console.error(
+      `Outbox for subscription ${subscription.id} is full; ${overflow.length} item(s) left unread for a later check`
+    );
+  }
+  return overflow;
+}
+
+async function flushHeldItems(
+  env: Env,
+  subscription: Subscription
+): Promise<{ changed: boolean; failure?: string }> {
+  if (subscription.heldSince === undefined) return { changed: false };
+  if (isInQuietHours(subscription.quietHours, Date.now())) {
+    return { changed: false };
+  }
+
+  const key = outboxKey(subscription.id);
+  const outbox = (await env.FEED_KV.get<FeedItem[]>(key, "json")) ?? [];
+  const delivery = await deliverItems(env, subscription, outbox);
+  if (!delivery.ok) {
+    const changed = delivery.undelivered.length < outbox.length;
+    if (changed) {
+      await env.FEED_KV.put(key, JSON.stringify(delivery.undelivered));
+    }
+    return {
+      changed,
+      failure: delivery.transient ? undefined : delivery.message,
+    };
+  }
+  await env.FEED_KV.delete(key);
+  subscription.heldSince = undefined;
+  return { changed: true };
+}
+
+async function deliverItems(
+  env: Env,
+  subscription: Subscription,
+  items: FeedItem[]
+): Promise<
+  | { ok: true }
+  | {
+      ok: false;
+      undelivered: FeedItem[];
+      message: string;
+      transient: boolean;
+    }
+> {
+  for (const [index, item] of items.entries()) {
+    try {
+      const message = buildDiscordMessage(subscription, item);
+      await deliverMessage(env, subscription, message, item.title);
+    } catch (error) {
+      console.error(
+        `Delivery failed for subscription ${subscription.id}`,
+        error
+      );
+      return {
+        ok: false,
+        undelivered: items.slice(index),
+        message: error instanceof Error ? error.message : "unknown error",
+        transient: isTransientDeliveryError(error),
+      };
+    }
+  }
+  return { ok: true };
+}
+
+function isTransientDeliveryError(error: unknown): boolean {
+  if (!(error instanceof DiscordApiError)) return true;
+  return error.status === 429 || error.status >= 500;
+}
+
+function buildDiscordMessage(
+  subscription: Subscription,
+  item: FeedItem
+): DiscordMessage {
+  const mentions = mentionTargets(item, subscription);
+  const allowed_mentions = {
+    parse: [],
+    roles: mentions.roles,
+    users: mentions.users,
+  };
+  if (subscription.messageStyle === "embed") {
+    const content = subscription.template?.text
+      ? formatDiscordMessage(item, subscription)
+      : formatMessageLead(item, subscription) || undefined;
+    return {
+      content,
+      embeds: [formatDiscordEmbed(item, subscription.feedTitle)],
+      allowed_mentions,
+    };
+  }
+  return {
+    content: formatDiscordMessage(item, subscription),
+    allowed_mentions,
+  };
+}
+
+function mentionTargets(
+  item: FeedItem,
+  subscription?: Subscription
+): MentionTargets {
+  const roles = new Set<string>();
+  const users = new Set<string>();
+  if (subscription?.template?.roleId) roles.add(subscription.template.roleId);
+  for (const rule of subscription?.mentions ?? []) {
+    const matched =
+      rule.when.length === 0 ||
+      rule.when.some((when) => matchesFilterRule(item, when));
+    if (!matched) continue;
+    if (rule.roleId) roles.add(rule.roleId);
+    if (rule.userId) users.add(rule.userId);
+  }
+  return { roles: [...roles], users: [...users] };
+}
+
+function formatMentions(mentions: MentionTargets): string {
+  return [
+    ...mentions.roles.map((id) => `<@&${id}>`),
+    ...mentions.users.map((id) => `<@${id}>`),
+  ].join(" ");
+}
+
+const TEMPLATE_PLACEHOLDERS = [
+  "title",
+  "link",
+  "summary",
+  "author",
+  "date",
+  "feedTitle",
+  "categories",
+];
+
+function formatDiscordMessage(
+  item: FeedItem,
+  subscription?: Subscription
+): string {
+  const template = subscription?.template;
+  const title = item.title ? item.title.trim() : "(no title)";
+  const link = item.link ? item.link.trim() : "";
+  const body = template?.text
+    ? renderTemplate(template.text, item, subscription?.feedTitle)
+    : link
+    ? `${title}\n${link}`
+    : title;
+  const lead = formatMessageLead(item, subscription);
+  const base = lead ? `${lead} ${body}` : body;
+  return base.length > 1900 ? base.slice(0, 1897) + "..." : base;
+}
+
+function formatMessageLead(
+  item: FeedItem,
+  subscription?: Subscription
+): string {
+  return [
+    formatMentions(mentionTargets(item, subscription)),
+    subscription?.template?.prefix ?? "",
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+function renderTemplate(
+  template: string,
+  item: FeedItem,
+  feedTitle?: string
+): string {
+  const values: Record<string, string> = {
+    title: item.title ? item.title.trim() : "(no title)",
+    link: item.link ? item.link.trim() : "",
+    summary: item.summary ? excerptText(stripHtml(item.summary), 500) : "",
+    author: item.author ?? "",
+    date: item.date ? `<t:${Math.floor(item.date / 1000)}:f>` : "",
+    feedTitle: normalizeFeedTitle(feedTitle) ?? "",
+    categories: (item.categories ?? []).join(", "),
+  };
+  return template
+    .replace(/\{(\w+)\}/g, (match, name: string) =>
+      name in values ? values[name] : match
+    )
+    .trim();
+}
+
+function findUnknownPlaceholders(template: string): string[] {
+  const unknown = new Set<string>();
+  for (const match of template.matchAll(/\{(\w+)\}/g)) {
+    if (!TEMPLATE_PLACEHOLDERS.includes(match[1])) {
+      unknown.add(match[0]);
+    }
+  }
+  return Array.from(unknown);
+}
+
+function formatDiscordEmbed(
+  item: FeedItem,
+  feedTitle?: string
+): Record<string, unknown> {
+  const title = normalizeFeedTitle(item.title) ?? "(no title)";
+  const link = item.link?.trim();
+  const excerpt = item.summary ? excerptText(stripHtml(item.summary), 300) : "";
+  const footerTitle = normalizeFeedTitle(feedTitle);
+
+  return {
+    title: title.length > 256 ? `${title.slice(0, 253)}...` : title,
+    url: link && isHttpUrl(link) ? link : undefined,
+    description: excerpt || undefined,
+    color: 0x3b82f6,
+    timestamp: item.date ? new Date(item.date).toISOString() : undefined,
+    thumbnail: item.image ? { url: item.image } : undefined,
+    footer: footerTitle ? { text: footerTitle } : undefined,
+  };
+}
+
+class DiscordApiError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = "DiscordApiError";
+  }
+}
+
+async function discordFetch(
+  url: string,
+  init: RequestInit = {}
+): Promise<Response> {
+  const route = `${init.method ?? "GET"} ${new URL(url).pathname}`;
+  for (let attempt = 1; ; attempt++) {
+    await waitForRateLimit(route);
+    const response = await fetch(url, init);
+    updateRateLimit(route, response);
+    if (attempt >= DISCORD_MAX_ATTEMPTS) return response;
+
+    let delay: number | undefined;
+    if (response.status === 429) {
+      delay = retryAfterMs(response) ?? DISCORD_SERVER_ERROR_BACKOFF_MS;
+    } else if (response.status >= 500) {
+      delay = DISCORD_SERVER_ERROR_BACKOFF_MS * 2 ** (attempt - 1);
+    }
+    if (delay === undefined || delay > DISCORD_MAX_RETRY_WAIT_MS) {
+      return response;
+    }
+    await response.body?.cancel();
+    await sleep(delay);
+  }
+}
+
+async function waitForRateLimit(route: string): Promise<void> {
+  let resetAt = globalRateLimitResetAt;
+  const bucketId = rateLimitRoutes.get(route);
+  const bucket = bucketId ? rateLimitBuckets.get(bucketId) : undefined;
+  if (bucket && bucket.remaining <= 0) {
+    resetAt = Math.max(resetAt, bucket.resetAt);
+  }
+  const delay = resetAt - Date.now();
+  if (delay > 0) {
+    await sleep(Math.min(delay, DISCORD_MAX_RETRY_WAIT_MS));
+  }
+}
+
+function updateRateLimit(route: string, response: Response): void {
+  if (
+    response.status === 429 &&
+    response.headers.get("X-RateLimit-Global") === "true"
+  ) {
+    globalRateLimitResetAt =
+      Date.now() + (retryAfterMs(response) ?? DISCORD_SERVER_ERROR_BACKOFF_MS);
+  }
+
+  const bucketId = response.headers.get("X-RateLimit-Bucket");
+  const remaining = response.headers.get("X-RateLimit-Remaining");
+  const resetAfter = response.headers.get("X-RateLimit-Reset-After");
+  if (!bucketId || remaining === null || resetAfter === null) return;
+  rateLimitRoutes.set(route, bucketId);
+  rateLimitBuckets.set(bucketId, {
+    remaining: Number(remaining) || 0,
+    resetAt: Date.now() + (Number(resetAfter) || 0) * 1000,
+  });
+}
+
+function retryAfterMs(response: Response): number | undefined {
+  const value =
+    response.headers.get("Retry-After") ??
+    response.headers.get("X-RateLimit-Reset-After");
+  if (value === null) return undefined;
+  const seconds = Number(value);
+  return Number.isFinite(seconds) ? Math.max(0, seconds * 1000) : undefined;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function withAllowedMentions<T extends DiscordMessage>(message: T): T {
+  return {
+    ...message,
+    allowed_mentions: message.allowed_mentions ?? { parse: [] },
+  };
+}
+
+async function sendDiscordMessage(
+  env: Env,
+  channelId: string,
+  message: DiscordMessage
+): Promise<string | undefined> {
+  const response = await discordFetch(
+    `https://discord.com/api/v10/channels/${channelId}/messages`,
+    {
+      method: "POST",
+      headers: {
+        Authorization: `Bot ${env.DISCORD_BOT_TOKEN}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(withAllowedMentions(message)),
+    }
+  );
+
+  if (!response.ok) {
+    const text = await response.text();
+    throw new DiscordApiError(
+      response.status,
+      `Discord post failed (${response.status}): ${text}`
+    );
+  }
+  const posted = (await response.json()) as { id?: string };
+  return posted.id;
+}
+
+async function deliverMessage(
+  env: Env,
+  subscription: Subscription,
+  message: DiscordMessage,
+  threadName?: string
+): Promise<void> {
+  if (subscription.delivery?.type === "forum") {
+    await createForumPost(
+      env,
+      subscription.channelId,
+      threadName ??
+        normalizeFeedTitle(subscription.feedTitle) ??
+        subscription.url,
+      message,
+      subscription.delivery.tagIds
+    );
+    return;
+  }
+
+  const messageId =
+    subscription.delivery?.type === "webhook"
+      ? await sendWebhookMessage(subscription.delivery, {
+          ...message,
+          username: webhookUsername(subscription.feedTitle),
+          avatar_url: subscription.feedImage,
+        })
+      : await sendDiscordMessage(env, subscription.channelId, message);
+
+  if (subscription.threadPerItem && threadName && messageId) {
+    try {
+      await startMessageThread(
+        env,
+        subscription.channelId,
+        messageId,
+        threadName
+      );
+    } catch (error) {
+      console.error(
+        `Failed to start a thread for subscription ${subscription.id}`,
+        error
+      );
+    }
+  }
+
+  if (subscription.publish && messageId) {
+    try {
+      await crosspostMessage(env, subscription.channelId, messageId);
+    } catch (error) {
+      console.error(
+        `Failed to publish a message for subscription ${subscription.id}`,
+        error
+      );
+    }
+  }
+}
+
+async function crosspostMessage(
+  env: Env,
+  channelId: string,
+  messageId: string
+): Promise<void> {
+  const blockKey = crosspostBlockKey(channelId);
+  if (await env.FEED_KV.get(blockKey)) return;
+
+  const response = await discordFetch(
+    `https://discord.com/api/v10/channels/${channelId}/messages/${messageId}/crosspost`,
+    {
+      method: "POST",
+      headers: {
+        Authorization: `Bot ${env.DISCORD_BOT_TOKEN}`,
+      },
+    }
+  );
+
+  if (response.status === 429) {
+    const retryAfterSeconds = Math.ceil(
+      (retryAfterMs(response) ?? CROSSPOST_BLOCK_MIN_SECONDS * 1000) / 1000
+    );
+    await env.FEED_KV.put(blockKey, String(Date.now()), {
+      expirationTtl: Math.max(CROSSPOST_BLOCK_MIN_SECONDS, retryAfterSeconds),
+    });
+    throw new Error(
+      `Crosspost rate limited in ${channelId} for ${retryAfterSeconds}s`
+    );
+  }
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`Crosspost failed (${response.status}): ${text}`);
+  }
+}
+
+async function createForumPost(
+  env: Env,
+  channelId: string,
+  name: string,
+  message: DiscordMessage,
+  tagIds: string[]
+): Promise<void> {
+  const response = await discordFetch(
+    `https://discord.com/api/v10/channels/${channelId}/threads`,
+    {
+      method: "POST",
+      headers: {
+        Authorization: `Bot ${env.DISCORD_BOT_TOKEN}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        name: truncateText(name, 100),
+        auto_archive_duration: THREAD_AUTO_ARCHIVE_MINUTES,
+        applied_tags: tagIds,
+        message: withAllowedMentions(message),
+      }),
+    }
+  );
+
+  if (!response.ok) {
+    const text = await response.text();
+    throw new DiscordApiError(
+      response.status,
+      `Forum post failed (${response.status}): ${text}`
+    );
+  }
+}
+
+async function startMessageThread(
+  env: Env,
+  channelId: string,
+  messageId: string,
+  name: string
+): Promise<void> {
+  const response = await discordFetch(
+    `https://discord.com/api/v10/channels/${channelId}/messages/${messageId}/threads`,
+    {
+      method: "POST",
+      headers: {
+        Authorization: `Bot ${env.DISCORD_BOT_TOKEN}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        name: truncateText(name, 100),
+        auto_archive_duration: THREAD_AUTO_ARCHIVE_MINUTES,
+      }),
+    }
+  );
+
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`Thread creation failed (${response.status}): ${text}`);
+  }
+}
+
+async function fetchChannel(
+  env: Env,
+  channelId: string
+): Promise<
+  { ok: true; channel: DiscordChannel } | { ok: false; status: number }
+> {
+  const response = await discordFetch(
+    `https://discord.com/api/v10/channels/${channelId}`,
+    {
+      headers: {
+        Authorization: `Bot ${env.DISCORD_BOT_TOKEN}`,
+      },
+    }
+  );
+  if (!response.ok) {
+    return { ok: false, status: response.status };
+  }
+  return { ok: true, channel: (await response.json()) as DiscordChannel };
+}
+
+async function resolveForumTags(
+  env: Env,
+  channelId: string,
+  value: string | undefined
+): Promise<{ ok: true; tagIds: string[] } | { ok: false; message: string }> {
+  const names = (value ?? "")
+    .split(",")
+    .map((name) => name.trim())
+    .filter((name) => name && name !== "-");
+  if (names.length === 0) return { ok: true, tagIds: [] };
+  if (names.length > FORUM_TAG_LIMIT) {
+    return {
+      ok: false,
+      message: `タグは ${FORUM_TAG_LIMIT} 個まで指定できます。`,
+    };
+  }
+
+  const result = await fetchChannel(env, channelId);
+  if (!result.ok) {
+    return {
+      ok: false,
+      message: `フォーラムのタグを取得できませんでした（HTTP ${result.status}）。`,
+    };
+  }
+  const available = result.channel.available_tags ?? [];
+
+  const tagIds: string[] = [];
+  const unknown: string[] = [];
+  for (const name of names) {
+    const tag = available.find(
+      (candidate) => candidate.name.toLowerCase() === name.toLowerCase()
+    );
+    if (tag) {
+      tagIds.push(tag.id);
+    } else {
+      unknown.push(name);
+    }
+  }
+  if (unknown.length > 0) {
+    const choices = available.map((tag) => tag.name).join(", ") || "なし";
+    return {
+      ok: false,
+      message: `フォーラムに存在しないタグです: ${unknown.join(
+        ", "
+      )}（使用できるタグ: ${choices}）`,
+    };
+  }
+  return { ok: true, tagIds };
+}
+
+async function sendWebhookMessage(
+  webhook: { webhookId: string; webhookToken: string },
+  message: DiscordMessage & { username?: string; avatar_url?: string }
+): Promise<string | undefined> {
+  const response = await discordFetch(
+    `https://discord.com/api/v10/webhooks/${webhook.webhookId}/${webhook.webhookToken}?wait=true`,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(withAllowedMentions(message)),
+    }
+  );
+
+  if (!response.ok) {
+    const text = await response.text();
+    throw new DiscordApiError(
+      response.status,
+      `Webhook post failed (${response.status}): ${text}`
+    );
+  }
+  const posted = (await response.json()) as { id?: string };
+  return posted.id;
+}
+
+function webhookUsername(feedTitle?: string): string | undefined {
+  const title = normalizeFeedTitle(feedTitle);
+  if (!title || /discord|clyde/i.test(title)) return undefined;
+  return title.length > 80 ? `${title.slice(0, 77)}...` : title;
+}
+
+async function resolveWebhookTarget(
+  env: Env,
+  channelId: string,
+  webhookUrl: string | undefined
+): Promise<
+  { ok: true; delivery: DeliveryTarget } | { ok: false; message: string }
+> {
+  try {
+    return await lookupWebhookTarget(env, channelId, webhookUrl);
+  } catch (error) {
+    console.error(`Webhook lookup failed for channel ${channelId}`, error);
+    return {
+      ok: false,
+      message: "Webhook の確認中にエラーが発生しました。",
+    };
+  }
+}
+
+async function lookupWebhookTarget(
+  env: Env,
+  channelId: string,
+  webhookUrl: string | undefined
+): Promise<
+  { ok: true; delivery: DeliveryTarget } | { ok: false; message: string }
+> {
+  if (webhookUrl) {
+    const match = webhookUrl
+      .trim()
+      .match(
+        /^https:\/\/(?:(?:ptb|canary)\.)?discord(?:app)?\.com\/api(?:\/v\d+)?\/webhooks\/(\d+)\/([\w-]+)\/?$/
+      );
+    if (!match) {
+      return { ok: false, message: "Webhook URL の形式が正しくありません。" };
+    }
+    const response = await discordFetch(
+      `https://discord.com/api/v10/webhooks/${match[1]}/${match[2]}`
+    );
+    if (!response.ok) {
+      return {
+        ok: false,
+        message: `Webhook を確認できませんでした（HTTP ${response.status}）。`,
+      };
+    }
+    const webhook = (await response.json()) as { channel_id?: string };
+    if (webhook.channel_id !== channelId) {
+      return {
+        ok: false,
+        message: "このチャンネルの Webhook URL を指定してください。",
+      };
+    }
+    return {
+      ok: true,
+      delivery: {
+        type: "webhook",
+        webhookId: match[1],
+        webhookToken: match[2],
+      },
+    };
+  }
+
+  const headers = {
+    Authorization: `Bot ${env.DISCORD_BOT_TOKEN}`,
+    "Content-Type": "application/json",
+  };
+  const listResponse = await discordFetch(
+    `https://discord.com/api/v10/channels/${channelId}/webhooks`,
+    { headers }
+  );
+  if (!listResponse.ok) {
+    return {
+      ok: false,
+      message: `Webhook の一覧を取得できませんでした（HTTP ${listResponse.status}）。ボットに「ウェブフックの管理」権限が必要です。`,
+    };
+  }
+  const webhooks = (await listResponse.json()) as Array<{
+    id: string;
+    name?: string;
+    token?: string;
+  }>;
+  const reusable = webhooks.find(
+    (webhook) => webhook.name === WEBHOOK_NAME && webhook.token
+  );
+  if (reusable?.token) {
+    return {
+      ok: true,
+      delivery: {
+        type: "webhook",
+        webhookId: reusable.id,
+        webhookToken: reusable.token,
+      },
+    };
+  }
+
+  const createResponse = await discordFetch(
+    `https://discord.com/api/v10/channels/${channelId}/webhooks`,
+    {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ name: WEBHOOK_NAME }),
+    }
+  );
+  if (!createResponse.ok) {
+    return {
+      ok: false,
+      message: `Webhook を作成できませんでした（HTTP ${createResponse.status}）。ボットに「ウェブフックの管理」権限が必要です。`,
+    };
+  }
+  const created = (await createResponse.json()) as {
+    id: string;
+    token?: string;
+  };
+  if (!created.token) {
+    return { ok: false, message: "Webhook のトークンを取得できませんでした。" };
+  }
+  return {
+    ok: true,
+    delivery: {
+      type: "webhook",
+      webhookId: created.id,
+      webhookToken: created.token,
+    },
+  };
+}
+
+function normalizeFeedTitle(value?: string): string | undefined {
+  if (!value) return undefined;
+  const trimmed = value.replace(/\s+/g, " ").trim();
+  if (!trimmed) return undefined;
+  return trimmed.length > 200 ? `${trimmed.slice(0, 197)}...` : trimmed;
+}
+
+export function parseFeed(
+  text: string,
+  contentType?: string | null
+): ParsedFeed {
+  if (isJsonDocument(contentType, text)) {
+    return parseJsonFeed(JSON.parse(text));
+  }
+
+  const parsed = xmlParser.parse(text);
+
+  if (parsed?.rss?.channel) {
+    const channel = parsed.rss.channel;
+    const items = ensureArray(channel.item)
+      .map(normalizeRssItem)
+      .filter(Boolean) as FeedItem[];
+    assignItemKeys(items);
+    const language = normalizeLanguage(
+      channel.language ?? channel["dc:language"] ?? parsed.rss["xml:lang"]
+    );
+    assignItemLanguages(items, language);
+    return {
+      items,
+      format: "rss",
+      title: pickText(channel.title),
+      image: pickText(ensureArray(channel.image)[0]?.url),
+      link: pickLink(channel.link),
+      language,
+    };
+  }
+
+  if (parsed?.feed) {
+    const entries = ensureArray(parsed.feed.entry);
+    const items = entries.map(normalizeAtomEntry).filter(Boolean) as FeedItem[];
+    assignItemKeys(items);
+    const language = normalizeLanguage(parsed.feed["xml:lang"]);
+    assignItemLanguages(items, language);
+    return {
+      items,
+      format: "atom",
+      title: pickText(parsed.feed.title),
+      image: pickText(parsed.feed.icon ?? parsed.feed.logo),
+      link: pickLink(parsed.feed.link),
+      language,
+    };
+  }
+
+  if (parsed?.["rdf:RDF"]) {
+    const rdf = parsed["rdf:RDF"];
+    const items = ensureArray(rdf.item)
       .map(normalizeRssItem)
       .filter(Boolean) as FeedItem[];
     assignItemKeys(items);
-    return { items, format: "rdf", title: pickText(parsed["rdf:RDF"].title) };
+    const language = normalizeLanguage(
+      rdf.channel?.["dc:language"] ?? rdf["xml:lang"]
+    );
+    assignItemLanguages(items, language);
+    return {
+      items,
+      format: "rdf",
+      title: pickText(rdf.channel?.title ?? rdf.title),
+      image: pickText(ensureArray(rdf.image)[0]?.url),
+      link: pickLink(rdf.channel?.link),
+      language,
+    };
   }
 
   return { items: [], format: "unknown" };
 }
 
-async function probeFeed(
-  url: string
-): Promise<
-  | { ok: true; format: ParsedFeed["format"]; title?: string }
-  | { ok: false; message: string }
-> {
+function parseJsonFeed(data: any): ParsedFeed {
+  if (
+    typeof data?.version !== "string" ||
+    !data.version.startsWith("https://jsonfeed.org/version/") ||
+    !Array.isArray(data.items)
+  ) {
+    return { items: [], format: "unknown" };
+  }
+
+  const items = data.items
+    .map(normalizeJsonFeedItem)
+    .filter(Boolean) as FeedItem[];
+  assignItemKeys(items);
+  const language = normalizeLanguage(data.language);
+  assignItemLanguages(items, language);
+  return {
+    items,
+    format: "json",
+    title: pickText(data.title),
+    image: pickText(data.icon ?? data.favicon),
+    link: pickText(data.home_page_url),
+    language,
+  };
+}
+
+function normalizeJsonFeedItem(item: any): FeedItem | null {
+  if (!item || typeof item !== "object") return null;
+  const link = pickText(item.url ?? item.external_url);
+  const contentText = pickText(item.content_text);
+  const title =
+    pickText(item.title) ??
+    (contentText ? excerptText(contentText.trim(), 100) : "(no title)");
+  const id = pickText(item.id) ?? link ?? title;
+  const date = parseDate(item.date_published ?? item.date_modified);
+  const summary = pickText(item.summary ?? item.content_html) ?? contentText;
+  const image = pickText(item.image ?? item.banner_image);
+  const author = ensureArray(item.authors ?? item.author)[0];
+
+  return {
+    id,
+    title,
+    link,
+    date,
+    summary,
+    author: pickText(author?.name),
+    language: normalizeLanguage(item.language),
+    categories: pickCategories(ensureArray(item.tags)),
+    image: image
+      ? resolveImageUrl(image, link)
+      : pickItemImage(item, pickText(item.content_html), link),
+  };
+}
+
+function isJsonDocument(
+  contentType: string | null | undefined,
+  text: string
+): boolean {
+  if (contentType?.toLowerCase().includes("json")) return true;
+  return /^\s*\{/.test(text);
+}
+
+function resolveFeedImage(
+  feed: Pick<ParsedFeed, "image" | "link">,
+  feedUrl: string
+): string | undefined {
+  try {
+    if (feed.image) {
+      const image = new URL(feed.image.trim(), feedUrl).toString();
+      if (isHttpUrl(image)) return image;
+    }
+    const site = new URL(feed.link?.trim() || feedUrl, feedUrl);
+    if (site.protocol !== "http:" && site.protocol !== "https:") {
+      return undefined;
+    }
+    return `${site.origin}/favicon.ico`;
+  } catch {
+    return undefined;
+  }
+}
+
+async function probeFeed(url: string): Promise<FeedProbeResult> {
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), FEED_FETCH_TIMEOUT_MS);
 
   try {
-    const response = await fetch(url, {
-      headers: {
-        "User-Agent": "feed-worker/1.0",
-        Accept:
-          "application/rss+xml, application/atom+xml, application/xml, text/xml, */*",
-      },
-      signal: controller.signal,
-    });
+    const response = await fetchFeedDocument(url, controller.signal);
 
     if (!response.ok) {
       return {
@@ -589,29 +4047,183 @@ async function probeFeed(
     }
 
     const text = await response.text();
-    let feed: ParsedFeed;
-    try {
-      feed = parseFeed(text);
-    } catch {
-      return { ok: false, message: "XML の解析に失敗しました。" };
+    const contentType = response.headers.get("Content-Type");
+    const inspected = inspectFeedDocument(url, text, contentType);
+    if (inspected.ok || !isHtmlDocument(contentType, text)) return inspected;
+    return await discoverFeed(url, text, controller.signal);
+  } catch (error) {
+    if (error instanceof Error && error.name === "AbortError") {
+      return { ok: false, message: "フィード取得がタイムアウトしました。" };
     }
+    return { ok: false, message: "フィード取得中にエラーが発生しました。" };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+async function fetchFeedDocument(
+  url: string,
+  signal: AbortSignal
+): Promise<Response> {
+  return fetch(url, {
+    headers: {
+      "User-Agent": "feed-worker/1.0",
+      Accept:
+        "application/rss+xml, application/atom+xml, application/feed+json, application/xml, text/xml, application/json, */*",
+    },
+    signal,
+  });
+}
+
+function inspectFeedDocument(
+  url: string,
+  text: string,
+  contentType?: string | null
+): FeedProbeResult {
+  let feed: ParsedFeed;
+  try {
+    feed = parseFeed(text, contentType);
+  } catch {
+    return {
+      ok: false,
+      message: isJsonDocument(contentType, text)
+        ? "JSON の解析に失敗しました。"
+        : "XML の解析に失敗しました。",
+    };
+  }
+
+  if (feed.format === "unknown") {
+    return {
+      ok: false,
+      message: "RSS/Atom/JSON Feed 形式のフィードを検出できませんでした。",
+    };
+  }
+
+  return {
+    ok: true,
+    url,
+    format: feed.format,
+    title: feed.title,
+    image: resolveFeedImage(feed, url),
+  };
+}
+
+async function discoverFeed(
+  pageUrl: string,
+  html: string,
+  signal: AbortSignal
+): Promise<FeedProbeResult> {
+  const linked = extractFeedLinks(html, pageUrl);
 
-    if (feed.format === "unknown") {
+  if (linked.length === 1) {
+    const response = await fetchFeedDocument(linked[0].url, signal);
+    if (!response.ok) {
       return {
         ok: false,
-        message: "RSS/Atom 形式のフィードを検出できませんでした。",
+        message: `フィードの取得に失敗しました（HTTP ${response.status}）。`,
       };
     }
+    return inspectFeedDocument(
+      linked[0].url,
+      await response.text(),
+      response.headers.get("Content-Type")
+    );
+  }
 
-    return { ok: true, format: feed.format, title: feed.title };
-  } catch (error) {
-    if (error instanceof Error && error.name === "AbortError") {
-      return { ok: false, message: "フィード取得がタイムアウトしました。" };
+  if (linked.length > 1) {
+    return {
+      ok: false,
+      message: "複数のフィードが見つかりました。",
+      candidates: linked.slice(0, 25),
+    };
+  }
+
+  const probes = await Promise.all(
+    COMMON_FEED_PATHS.map(async (path) => {
+      const candidateUrl = new URL(path, pageUrl).toString();
+      try {
+        const response = await fetchFeedDocument(candidateUrl, signal);
+        if (!response.ok) return null;
+        const result = inspectFeedDocument(
+          candidateUrl,
+          await response.text(),
+          response.headers.get("Content-Type")
+        );
+        return result.ok ? result : null;
+      } catch {
+        return null;
+      }
+    })
+  );
+  const found = probes.filter(
+    (probe): probe is Extract<FeedProbeResult, { ok: true }> => Boolean(probe)
+  );
+
+  if (found.length === 1) {
+    return found[0];
+  }
+  if (found.length > 1) {
+    return {
+      ok: false,
+      message: "複数のフィードが見つかりました。",
+      candidates: found.map((probe) => ({
+        url: probe.url,
+        title: normalizeFeedTitle(probe.title),
+      })),
+    };
+  }
+
+  return {
+    ok: false,
+    message:
+      "ページ内に RSS/Atom/JSON Feed 形式のフィードを検出できませんでした。フィードの URL を指定してください。",
+  };
+}
+
+function isHtmlDocument(contentType: string | null, text: string): boolean {
+  if (contentType?.toLowerCase().includes("html")) return true;
+  return /^\s*(<!doctype html|<html[\s>])/i.test(text);
+}
+
+function extractFeedLinks(html: string, baseUrl: string): FeedCandidate[] {
+  const candidates: FeedCandidate[] = [];
+  const seen = new Set<string>();
+
+  for (const match of html.matchAll(/<link\b[^>]*>/gi)) {
+    const attributes = parseHtmlAttributes(match[0]);
+    const rel = (attributes.rel ?? "").toLowerCase().split(/\s+/);
+    const type = (attributes.type ?? "").toLowerCase().split(";")[0].trim();
+    if (!rel.includes("alternate") || !FEED_LINK_TYPES.includes(type)) continue;
+    if (!attributes.href) continue;
+
+    let url: string;
+    try {
+      url = new URL(decodeHtmlEntities(attributes.href), baseUrl).toString();
+    } catch {
+      continue;
     }
-    return { ok: false, message: "フィード取得中にエラーが発生しました。" };
-  } finally {
-    clearTimeout(timeoutId);
+    if (!isHttpUrl(url) || seen.has(url)) continue;
+    seen.add(url);
+    candidates.push({
+      url,
+      title: normalizeFeedTitle(
+        attributes.title ? decodeHtmlEntities(attributes.title) : undefined
+      ),
+    });
+  }
+
+  return candidates;
+}
+
+function parseHtmlAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const body = tag.replace(/^<\w+/, "").replace(/\/?>$/, "");
+  for (const match of body.matchAll(
+    /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g
+  )) {
+    attributes[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4] ?? "";
   }
+  return attributes;
 }
 
 function normalizeRssItem(item: any): FeedItem | null {
@@ -620,32 +4232,171 @@ function normalizeRssItem(item: any): FeedItem | null {
   const link = pickLink(item.link);
   const id = pickText(item.guid) ?? link ?? title;
   const date = parseDate(
-    item.pubDate ?? item.date ?? item.published ?? item.updated
+    item.pubDate ??
+      item["dc:date"] ??
+      item.date ??
+      item.published ??
+      item.updated
+  );
+
+  const summary = pickText(item.description);
+
+  return {
+    id,
+    title,
+    link,
+    date,
+    summary,
+    author: pickText(item.author ?? item["dc:creator"]),
+    language: normalizeLanguage(item["xml:lang"] ?? item["dc:language"]),
+    categories: pickCategories([
+      ...ensureArray(item.category),
+      ...ensureArray(item["dc:subject"]),
+    ]),
+    image: pickItemImage(
+      item,
+      [summary, pickText(item["content:encoded"])].filter(Boolean).join("\n"),
+      link
+    ),
+  };
+}
+
+function normalizeAtomEntry(entry: any): FeedItem | null {
+  if (!entry) return null;
+  const title = pickText(entry.title) ?? "(no title)";
+  const link = pickLink(entry.link);
+  const id = pickText(entry.id) ?? link ?? title;
+  const date = parseDate(entry.updated ?? entry.published);
+
+  const summary = pickText(entry.summary ?? entry.content);
+
+  return {
+    id,
+    title,
+    link,
+    date,
+    summary,
+    author: pickText(ensureArray(entry.author)[0]?.name),
+    language: normalizeLanguage(entry["xml:lang"]),
+    categories: pickCategories(ensureArray(entry.category)),
+    image: pickItemImage(entry, summary ?? pickText(entry.content), link),
+  };
+}
+
+function pickCategories(values: any[]): string[] | undefined {
+  const categories = values
+    .map((value) =>
+      value &&
+      typeof value === "object" &&
+      ("term" in value || "label" in value)
+        ? pickText(value.term ?? value.label)
+        : pickText(value)
+    )
+    .map((value) => value?.trim())
+    .filter((value): value is string => Boolean(value));
+  return categories.length > 0 ? categories : undefined;
+}
+
+function pickItemImage(
+  item: any,
+  html: string | undefined,
+  baseUrl: string | undefined
+): string | undefined {
+  const thumbnail = ensureArray(item["media:thumbnail"])
+    .map((media: any) => media?.url)
+    .find(Boolean);
+  const mediaContent = ensureArray(item["media:content"])
+    .filter(
+      (media: any) => media?.medium === "image" || isImageType(media?.type)
+    )
+    .map((media: any) => media.url)
+    .find(Boolean);
+  const enclosure = [
+    ...ensureArray(item.enclosure),
+    ...ensureArray(item.link).filter((link: any) => link?.rel === "enclosure"),
+  ]
+    .filter((media: any) => isImageType(media?.type))
+    .map((media: any) => media.url ?? media.href)
+    .find(Boolean);
+  const inline = html?.match(/<img\b[^>]*?\ssrc\s*=\s*["']([^"']+)["']/i)?.[1];
+
+  return resolveImageUrl(
+    thumbnail ?? mediaContent ?? enclosure ?? inline,
+    baseUrl
+  );
+}
+
+function resolveImageUrl(
+  candidate: unknown,
+  baseUrl: string | undefined
+): string | undefined {
+  if (typeof candidate !== "string" || !candidate.trim()) return undefined;
+  try {
+    const resolved = new URL(decodeHtmlEntities(candidate.trim()), baseUrl);
+    return isHttpUrl(resolved.toString()) ? resolved.toString() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function isImageType(value: any): boolean {
+  return typeof value === "string" && value.toLowerCase().startsWith("image/");
+}
+
+function isHttpUrl(value: string): boolean {
+  return value.startsWith("https://") || value.startsWith("http://");
+}
+
+function stripHtml(html: string): string {
+  const text = html
+    .replace(/<(script|style)\b[^>]*>[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|li|h[1-6])>/gi, "\n")
+    .replace(/<[^>]+>/g, " ");
+  return decodeHtmlEntities(text)
+    .replace(/[ \t\f\v\r]+/g, " ")
+    .replace(/\s*\n\s*/g, "\n")
+    .replace(/\n{2,}/g, "\n")
+    .trim();
+}
+
+function decodeHtmlEntities(value: string): string {
+  return value.replace(
+    /&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos|nbsp);/gi,
+    (match, entity: string) => {
+      const lower = entity.toLowerCase();
+      if (lower.startsWith("#x")) {
+        return safeFromCodePoint(parseInt(lower.slice(2), 16)) ?? match;
+      }
+      if (lower.startsWith("#")) {
+        return safeFromCodePoint(parseInt(lower.slice(1), 10)) ?? match;
+      }
+      switch (lower) {
+        case "amp":
+          return "&";
+        case "lt":
+          return "<";
+        case "gt":
+          return ">";
+        case "quot":
+          return '"';
+        case "apos":
+          return "'";
+        default:
+          return " ";
+      }
+    }
   );
-
-  return {
-    id,
-    title,
-    link,
-    date,
-    summary: pickText(item.description),
-  };
 }
 
-function normalizeAtomEntry(entry: any): FeedItem | null {
-  if (!entry) return null;
-  const title = pickText(entry.title) ?? "(no title)";
-  const link = pickLink(entry.link);
-  const id = pickText(entry.id) ?? link ?? title;
-  const date = parseDate(entry.updated ?? entry.published);
+function safeFromCodePoint(code: number): string | undefined {
+  if (!Number.isFinite(code) || code < 0 || code > 0x10ffff) return undefined;
+  return String.fromCodePoint(code);
+}
 
-  return {
-    id,
-    title,
-    link,
-    date,
-    summary: pickText(entry.summary ?? entry.content),
-  };
+function excerptText(value: string, maxLength: number): string {
+  if (value.length <= maxLength) return value;
+  return `${value.slice(0, maxLength - 3).trimEnd()}...`;
 }
 
 function assignItemKeys(items: FeedItem[]): void {
@@ -664,7 +4415,45 @@ function assignItemKeys(items: FeedItem[]): void {
   }
 }
 
-function normalizeLinkKey(link?: string): string | undefined {
+function assignItemLanguages(items: FeedItem[], language?: string): void {
+  if (!language) return;
+  for (const item of items) {
+    item.language ??= language;
+  }
+}
+
+function normalizeLanguage(value: any): string | undefined {
+  const primary = pickText(value)?.trim().toLowerCase().split(/[-_]/)[0];
+  return primary && /^[a-z]{2,3}$/.test(primary) ? primary : undefined;
+}
+
+export function detectLanguage(text: string): string | undefined {
+  if (/[\u3040-\u30ff]/.test(text)) return "ja";
+  if (/[\uac00-\ud7af]/.test(text)) return "ko";
+  if (/[\u4e00-\u9fff]/.test(text)) return undefined;
+  if (/[\u0400-\u04ff]/.test(text)) return "ru";
+  if (/[\u00c0-\u024f]/.test(text)) return undefined;
+  const words = new Set(text.toLowerCase().match(/[a-z]+/g) ?? []);
+  const matched = Array.from(words).filter((word) =>
+    ENGLISH_FUNCTION_WORDS.has(word)
+  );
+  return matched.length >= 2 ? "en" : undefined;
+}
+
+function itemLanguage(item: FeedItem): string | undefined {
+  return (
+    item.language ??
+    detectLanguage(`${item.title} ${stripHtml(item.summary ?? "")}`)
+  );
+}
+
+function matchesLanguages(item: FeedItem, languages?: string[]): boolean {
+  if (!languages || languages.length === 0) return true;
+  const language = itemLanguage(item);
+  return !language || languages.includes(language);
+}
+
+export function normalizeLinkKey(link?: string): string | undefined {
   if (!link) return undefined;
   const trimmed = link.trim();
   if (!trimmed) return undefined;
@@ -749,11 +4538,10 @@ function ensureArray<T>(value: T | T[] | undefined | null): T[] {
   return Array.isArray(value) ? value : [value];
 }
 
-function diffItems(
+export function diffItems(
   items: FeedItem[],
-  lastId?: string,
-  lastDate?: number,
-  lastKey?: string
+  history?: SeenHistory | null,
+  cursor: Pick<Subscription, "lastItemId" | "lastItemDate" | "lastItemKey"> = {}
 ): { newItems: FeedItem[]; latestItem?: FeedItem } {
   if (items.length === 0) return { newItems: [] };
 
@@ -764,8 +4552,37 @@ function diffItems(
 
   const latestItem = sorted[sorted.length - 1];
 
+  if (history) {
+    const seenIds = new Set(history.ids);
+    const seenKeys = new Set(history.keys);
+    const chronological = withDate ? sorted : [...items].reverse();
+    const newItems = chronological.filter(
+      (item) => !seenIds.has(item.id) && !(item.key && seenKeys.has(item.key))
+    );
+    return { newItems, latestItem };
+  }
+
+  return {
+    newItems: diffItemsByCursor(
+      sorted,
+      cursor.lastItemId,
+      cursor.lastItemDate,
+      cursor.lastItemKey
+    ),
+    latestItem,
+  };
+}
+
+function diffItemsByCursor(
+  sorted: FeedItem[],
+  lastId?: string,
+  lastDate?: number,
+  lastKey?: string
+): FeedItem[] {
+  const latestItem = sorted[sorted.length - 1];
+
   if (!lastId && !lastDate && !lastKey) {
-    return { newItems: [], latestItem };
+    return [];
   }
 
   let newItems: FeedItem[] = [];
@@ -799,53 +4616,643 @@ function diffItems(
     newItems = [latestItem];
   }
 
-  return { newItems, latestItem };
+  return newItems;
 }
 
-function subscriptionKey(guildId: string, subId: string): string {
-  return `sub:g:${guildId}:${subId}`;
+export function rememberItems(
+  history: SeenHistory | null | undefined,
+  items: FeedItem[]
+): SeenHistory {
+  const limit = Math.max(SEEN_HISTORY_LIMIT, items.length);
+  const merge = (current: Array<string | undefined>, previous: string[]) =>
+    Array.from(
+      new Set(
+        [...current, ...previous].filter((value): value is string =>
+          Boolean(value)
+        )
+      )
+    ).slice(0, limit);
+
+  return {
+    ids: merge(
+      items.map((item) => item.id),
+      history?.ids ?? []
+    ),
+    keys: merge(
+      items.map((item) => item.key),
+      history?.keys ?? []
+    ),
+  };
 }
 
-function buildListEmbeds(
-  subscriptions: Subscription[]
-): Array<Record<string, unknown>> {
-  const grouped = new Map<string, Subscription[]>();
-  for (const sub of subscriptions) {
-    const list = grouped.get(sub.channelId) ?? [];
-    list.push(sub);
-    grouped.set(sub.channelId, list);
+function sameHistory(a: SeenHistory, b: SeenHistory): boolean {
+  return (
+    a.ids.length === b.ids.length &&
+    a.keys.length === b.keys.length &&
+    a.ids.every((id, index) => id === b.ids[index]) &&
+    a.keys.every((key, index) => key === b.keys[index])
+  );
+}
+
+function parseScheduleOptions(
+  options: any[],
+  current: Subscription,
+  quotas: GuildQuotas
+):
+  | {
+      ok: true;
+      pollIntervalMinutes: number | undefined;
+      quietHours: QuietHours | undefined;
+    }
+  | { ok: false; message: string } {
+  let pollIntervalMinutes = current.pollIntervalMinutes;
+  const intervalValue = options.find((opt) => opt.name === "interval")?.value;
+  if (typeof intervalValue === "number") {
+    if (
+      !Number.isInteger(intervalValue) ||
+      intervalValue < quotas.minPollIntervalMinutes ||
+      intervalValue > MAX_POLL_INTERVAL_MINUTES
+    ) {
+      return {
+        ok: false,
+        message: `取得間隔は ${quotas.minPollIntervalMinutes}〜${MAX_POLL_INTERVAL_MINUTES} 分の範囲で指定してください。`,
+      };
+    }
+    pollIntervalMinutes =
+      intervalValue <= FEED_CHECK_CADENCE_MINUTES ? undefined : intervalValue;
+  }
+
+  let quietHours = current.quietHours;
+  const quietValue = options.find((opt) => opt.name === "quiet_hours")
+    ?.value as string | undefined;
+  const timeZoneValue = options.find((opt) => opt.name === "timezone")
+    ?.value as string | undefined;
+  if (quietValue?.trim() === "-") {
+    quietHours = undefined;
+  } else if (quietValue) {
+    const match = quietValue
+      .trim()
+      .match(/^(\d{1,2}:\d{2})\s*-\s*(\d{1,2}:\d{2})$/);
+    const start = match ? parseClockTime(match[1]) : null;
+    const end = match ? parseClockTime(match[2]) : null;
+    if (!match || start === null || end === null || start === end) {
+      return {
+        ok: false,
+        message:
+          "quiet_hours は `22:00-07:00` のように開始と終了の時刻で指定してください。",
+      };
+    }
+    quietHours = {
+      start: match[1],
+      end: match[2],
+      timeZone: quietHours?.timeZone ?? DEFAULT_TIME_ZONE,
+    };
+  }
+  if (timeZoneValue) {
+    if (!isValidTimeZone(timeZoneValue)) {
+      return {
+        ok: false,
+        message: `タイムゾーンが正しくありません: ${timeZoneValue}（例: Asia/Tokyo）`,
+      };
+    }
+    if (!quietHours) {
+      return {
+        ok: false,
+        message: "timezone は quiet_hours と一緒に指定してください。",
+      };
+    }
+    quietHours = { ...quietHours, timeZone: timeZoneValue };
+  }
+
+  return { ok: true, pollIntervalMinutes, quietHours };
+}
+
+function parseLanguageOptions(
+  options: any[],
+  current: Subscription
+):
+  | {
+      ok: true;
+      translateTo: string | undefined;
+      languages: string[] | undefined;
+    }
+  | { ok: false; message: string } {
+  let translateTo = current.translateTo;
+  const translateValue = options.find((opt) => opt.name === "translate")
+    ?.value as string | undefined;
+  if (translateValue?.trim() === "-") {
+    translateTo = undefined;
+  } else if (translateValue) {
+    translateTo = normalizeLanguage(translateValue);
+    if (!translateTo) {
+      return {
+        ok: false,
+        message: `言語コードが正しくありません: ${translateValue}（例: ja）`,
+      };
+    }
+  }
+
+  let languages = current.languages;
+  const languagesValue = options.find((opt) => opt.name === "languages")
+    ?.value as string | undefined;
+  if (languagesValue?.trim() === "-") {
+    languages = undefined;
+  } else if (languagesValue) {
+    const codes = languagesValue
+      .split(",")
+      .map((code) => code.trim())
+      .filter(Boolean);
+    const normalized = codes.map((code) => normalizeLanguage(code));
+    const invalid = codes.filter((_, index) => !normalized[index]);
+    if (invalid.length > 0 || codes.length === 0) {
+      return {
+        ok: false,
+        message: `言語コードが正しくありません: ${
+          invalid.join(", ") || languagesValue
+        }（例: ja,en）`,
+      };
+    }
+    if (codes.length > LANGUAGE_FILTER_LIMIT) {
+      return {
+        ok: false,
+        message: `languages は ${LANGUAGE_FILTER_LIMIT} 個まで指定できます。`,
+      };
+    }
+    languages = [
+      ...new Set(normalized.filter((code): code is string => Boolean(code))),
+    ];
+  }
+
+  return { ok: true, translateTo, languages };
+}
+
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function parseFilterOptions(
+  options: any[],
+  current?: ItemFilters
+):
+  | { ok: true; filters: ItemFilters | undefined }
+  | { ok: false; message: string } {
+  const include = parseFilterRules(
+    options.find((opt) => opt.name === "include")?.value,
+    current?.include ?? []
+  );
+  if (!include.ok) return include;
+  const exclude = parseFilterRules(
+    options.find((opt) => opt.name === "exclude")?.value,
+    current?.exclude ?? []
+  );
+  if (!exclude.ok) return exclude;
+
+  if (include.rules.length === 0 && exclude.rules.length === 0) {
+    return { ok: true, filters: undefined };
+  }
+  return {
+    ok: true,
+    filters: { include: include.rules, exclude: exclude.rules },
+  };
+}
+
+function parseFilterRules(
+  value: unknown,
+  fallback: FilterRule[]
+): { ok: true; rules: FilterRule[] } | { ok: false; message: string } {
+  if (typeof value !== "string") return { ok: true, rules: fallback };
+  const trimmed = value.trim();
+  if (trimmed === "" || trimmed === "-") return { ok: true, rules: [] };
+
+  const rules: FilterRule[] = [];
+  for (const token of splitFilterTokens(trimmed)) {
+    const text = token.trim();
+    if (!text) continue;
+
+    const regex = text.match(/^\/(.+)\/([a-z]*)$/);
+    if (regex) {
+      if (!compileFilterRegex(regex[1], regex[2])) {
+        return {
+          ok: false,
+          message: `正規表現の形式が正しくありません: ${text}`,
+        };
+      }
+      rules.push({ type: "regex", value: text });
+      continue;
+    }
+
+    if (text.toLowerCase().startsWith("category:")) {
+      const category = text.slice("category:".length).trim();
+      if (category) rules.push({ type: "category", value: category });
+      continue;
+    }
+
+    rules.push({ type: "keyword", value: text });
+  }
+
+  return { ok: true, rules };
+}
+
+function splitFilterTokens(value: string): string[] {
+  const tokens: string[] = [];
+  let current = "";
+  let inRegex = false;
+  let inClass = false;
+  for (let i = 0; i < value.length; i += 1) {
+    const char = value[i];
+    if (inRegex) {
+      current += char;
+      if (char === "\\") {
+        current += value[i + 1] ?? "";
+        i += 1;
+      } else if (inClass) {
+        if (char === "]") inClass = false;
+      } else if (char === "[") {
+        inClass = true;
+      } else if (char === "/") {
+        inRegex = false;
+      }
+      continue;
+    }
+    if (char === ",") {
+      tokens.push(current);
+      current = "";
+      continue;
+    }
+    if (char === "/" && current.trim() === "") inRegex = true;
+    current += char;
+  }
+  if (inRegex) {
+    tokens.push(...current.split(","));
+  } else {
+    tokens.push(current);
+  }
+  return tokens;
+}
+
+function compileFilterRegex(pattern: string, flags: string): RegExp | null {
+  if (pattern.length > 200) return null;
+  try {
+    return new RegExp(pattern, flags.replace(/[gy]/g, ""));
+  } catch {
+    return null;
+  }
+}
+
+function matchesFilters(item: FeedItem, filters?: ItemFilters): boolean {
+  if (!filters) return true;
+  if (
+    filters.include.length > 0 &&
+    !filters.include.some((rule) => matchesFilterRule(item, rule))
+  ) {
+    return false;
+  }
+  return !filters.exclude.some((rule) => matchesFilterRule(item, rule));
+}
+
+function matchesFilterRule(item: FeedItem, rule: FilterRule): boolean {
+  if (rule.type === "category") {
+    const expected = rule.value.toLowerCase();
+    return (item.categories ?? []).some(
+      (category) => category.toLowerCase() === expected
+    );
+  }
+
+  const text = [item.title, item.summary ? stripHtml(item.summary) : ""].join(
+    "\n"
+  );
+
+  if (rule.type === "regex") {
+    const match = rule.value.match(/^\/(.+)\/([a-z]*)$/);
+    const regex = match ? compileFilterRegex(match[1], match[2]) : null;
+    return regex ? regex.test(text) : false;
   }
 
+  return text.toLowerCase().includes(rule.value.toLowerCase());
+}
+
+function describeFilters(
+  filters?: ItemFilters
+): Array<{ name: string; value: string }> {
+  if (!filters) return [];
+  const format = (rules: FilterRule[]) =>
+    truncateField(rules.map(formatFilterRule).join(", "));
+  const fields: Array<{ name: string; value: string }> = [];
+  if (filters.include.length > 0) {
+    fields.push({ name: "include", value: format(filters.include) });
+  }
+  if (filters.exclude.length > 0) {
+    fields.push({ name: "exclude", value: format(filters.exclude) });
+  }
+  return fields;
+}
+
+function describeMentionRules(rules?: MentionRule[]): string {
+  if (!rules || rules.length === 0) return "なし";
+  return rules
+    .map((rule) => {
+      const target = rule.roleId ? `<@&${rule.roleId}>` : `<@${rule.userId}>`;
+      const when =
+        rule.when.length > 0
+          ? rule.when.map(formatFilterRule).join(", ")
+          : "常に";
+      return `${target}: ${when}`;
+    })
+    .join("\n");
+}
+
+function formatFilterRule(rule: FilterRule): string {
+  return rule.type === "category" ? `category:${rule.value}` : rule.value;
+}
+
+function describeDelivery(subscription: Subscription): string {
+  const delivery = subscription.delivery;
+  if (delivery?.type === "forum") {
+    return delivery.tagIds.length > 0
+      ? `forum（タグ ${delivery.tagIds.length} 個）`
+      : "forum";
+  }
+  return [
+    delivery?.type === "webhook" ? "webhook" : "bot",
+    subscription.threadPerItem ? "thread" : undefined,
+    subscription.publish ? "publish" : undefined,
+  ]
+    .filter(Boolean)
+    .join(" + ");
+}
+
+function describeSchedule(
+  subscription: Subscription
+): Array<{ name: string; value: string; inline?: boolean }> {
   const fields: Array<{ name: string; value: string; inline?: boolean }> = [];
-  for (const [channelId, subs] of grouped.entries()) {
-    const sorted = [...subs].sort((a, b) => a.createdAt - b.createdAt);
-    const lines = sorted.map((sub) => {
-      const title = normalizeFeedTitle(sub.feedTitle) ?? "(no title)";
-      return `${title}\n${sub.url}\nID: \`${sub.id}\``;
+  if (subscription.pollIntervalMinutes) {
+    fields.push({
+      name: "取得間隔",
+      value: `${subscription.pollIntervalMinutes} 分`,
+      inline: true,
     });
+  }
+  if (subscription.quietHours) {
+    const { start, end, timeZone } = subscription.quietHours;
     fields.push({
-      name: `<#${channelId}> (${subs.length})`,
-      value: truncateField(lines.join("\n")),
+      name: "静音時間",
+      value: `${start}-${end} (${timeZone})`,
+      inline: true,
+    });
+  }
+  return fields;
+}
+
+function describeLanguage(
+  subscription: Subscription
+): Array<{ name: string; value: string; inline?: boolean }> {
+  const fields: Array<{ name: string; value: string; inline?: boolean }> = [];
+  if (subscription.translateTo) {
+    fields.push({
+      name: "翻訳",
+      value: subscription.translateTo,
+      inline: true,
+    });
+  }
+  if (subscription.languages) {
+    fields.push({
+      name: "言語",
+      value: subscription.languages.join(", "),
+      inline: true,
     });
   }
+  return fields;
+}
+
+function subscriptionKey(guildId: string, subId: string): string {
+  return `sub:g:${guildId}:${subId}`;
+}
+
+function guildConfigKey(guildId: string): string {
+  return `guildcfg:${guildId}`;
+}
+
+function pendingSubscribeKey(pendingId: string): string {
+  return `pending:subscribe:${pendingId}`;
+}
+
+function digestConfigKey(channelId: string): string {
+  return `digestcfg:${channelId}`;
+}
+
+function digestItemsKey(subId: string): string {
+  return `digest:${subId}`;
+}
+
+function crosspostBlockKey(channelId: string): string {
+  return `crosspostblock:${channelId}`;
+}
+
+function outboxKey(subId: string): string {
+  return `outbox:${subId}`;
+}
+
+function seenHistoryKey(subId: string): string {
+  return `seen:${subId}`;
+}
+
+function feedRecordKey(url: string): string {
+  return `feed:${url}`;
+}
+
+function legacyFeedValidatorsKey(url: string): string {
+  return `feedcache:${url}`;
+}
+
+function buildListPage(
+  subscriptions: Subscription[],
+  view: ListView
+): Record<string, unknown> {
+  const query = view.query?.toLowerCase() ?? "";
+  const matched = subscriptions
+    .filter((sub) => !view.channelId || sub.channelId === view.channelId)
+    .filter((sub) => matchesSubscriptionQuery(sub, query))
+    .sort((a, b) => a.createdAt - b.createdAt);
+  const conditions = [
+    view.channelId ? `チャンネル: <#${view.channelId}>` : "",
+    view.query ? `検索: ${view.query}` : "",
+  ].filter(Boolean);
+
+  if (matched.length === 0) {
+    return {
+      embeds: [
+        {
+          title: "購読一覧 (0)",
+          color: 0x3b82f6,
+          description: [...conditions, "条件に一致する購読はありません。"].join(
+            "\n"
+          ),
+        },
+      ],
+      components: [],
+    };
+  }
+
+  const pageCount = Math.ceil(matched.length / LIST_PAGE_SIZE);
+  const page = Math.min(Math.max(view.page, 0), pageCount - 1);
+  const entries = matched.slice(
+    page * LIST_PAGE_SIZE,
+    (page + 1) * LIST_PAGE_SIZE
+  );
+
+  const fields = entries.map((sub, index) => {
+    const title = normalizeFeedTitle(sub.feedTitle) ?? "(no title)";
+    const format = sub.feedFormat ? ` [${sub.feedFormat}]` : "";
+    const lines = [
+      `<#${sub.channelId}>`,
+      sub.url,
+      `ID: \`${sub.id}\``,
+      describeHealth(sub),
+      ...[...describeSchedule(sub), ...describeLanguage(sub)].map(
+        (field) => `${field.name}: ${field.value}`
+      ),
+    ];
+    return {
+      name: truncateText(`${index + 1}. ${title}${format}`, 256),
+      value: truncateField(lines.join("\n")),
+    };
+  });
 
-  const embeds: Array<Record<string, unknown>> = [];
-  const total = subscriptions.length;
-  const maxFieldsPerEmbed = 25;
-  for (let i = 0; i < fields.length; i += maxFieldsPerEmbed) {
-    embeds.push({
-      title: i === 0 ? `購読一覧 (${total})` : "購読一覧 (続き)",
-      color: 0x3b82f6,
-      fields: fields.slice(i, i + maxFieldsPerEmbed),
+  const current = { ...view, page };
+  const components: Array<Record<string, unknown>> = entries.map(
+    (sub, index) => ({
+      type: 1,
+      components: [
+        {
+          type: 2,
+          style: 4,
+          label: `${index + 1}. 解除`,
+          custom_id: buildListCustomId("unsub", current, sub.id),
+        },
+        {
+          type: 2,
+          style: 2,
+          label: `${index + 1}. ${sub.pausedByUser ? "再開" : "一時停止"}`,
+          custom_id: buildListCustomId("pause", current, sub.id),
+        },
+      ],
+    })
+  );
+  if (pageCount > 1) {
+    components.push({
+      type: 1,
+      components: [
+        {
+          type: 2,
+          style: 2,
+          label: "前へ",
+          custom_id: buildListCustomId("page", { ...view, page: page - 1 }),
+          disabled: page === 0,
+        },
+        {
+          type: 2,
+          style: 2,
+          label: "次へ",
+          custom_id: buildListCustomId("page", { ...view, page: page + 1 }),
+          disabled: page >= pageCount - 1,
+        },
+      ],
     });
   }
 
-  return embeds;
+  return {
+    embeds: [
+      {
+        title: `購読一覧 (${matched.length})`,
+        color: 0x3b82f6,
+        description: conditions.length > 0 ? conditions.join("\n") : undefined,
+        fields,
+        footer: { text: `ページ ${page + 1} / ${pageCount}` },
+      },
+    ],
+    components,
+  };
+}
+
+function buildListCustomId(
+  action: "page" | "unsub" | "pause",
+  view: ListView,
+  subId = ""
+): string {
+  return [
+    "list",
+    action,
+    view.page,
+    subId,
+    view.channelId ?? "",
+    view.query ?? "",
+  ].join(":");
+}
+
+function parseListCustomId(
+  customId: string
+): { action: string; subId?: string; view: ListView } | null {
+  const [action, page, subId, channelId, ...query] = customId.split(":");
+  if (!["page", "unsub", "pause"].includes(action)) return null;
+  const pageNumber = Number(page);
+  if (!Number.isInteger(pageNumber)) return null;
+  return {
+    action,
+    subId: subId || undefined,
+    view: {
+      page: pageNumber,
+      channelId: channelId || undefined,
+      query: query.join(":") || undefined,
+    },
+  };
+}
+
+function matchesSubscriptionQuery(
+  subscription: Subscription,
+  query: string
+): boolean {
+  if (!query) return true;
+  return [subscription.id, subscription.url, subscription.feedTitle ?? ""].some(
+    (value) => value.toLowerCase().includes(query)
+  );
+}
+
+function describeHealth(subscription: Subscription): string {
+  const status = subscription.status ?? "active";
+  const icon =
+    status === "active"
+      ? "🟢"
+      : status === "degraded"
+      ? "🟡"
+      : status === "paused"
+      ? "🟠"
+      : "🔴";
+  const errors = subscription.errorCount ?? 0;
+  const lines = [
+    subscription.pausedByUser
+      ? "状態: ⏸️ 手動で一時停止中"
+      : `状態: ${icon} ${status}${
+          errors > 0 ? `（連続エラー ${errors} 回）` : ""
+        }`,
+  ];
+  if (subscription.lastError) {
+    lines.push(`最後のエラー: ${truncateText(subscription.lastError, 120)}`);
+  }
+  return lines.join("\n");
 }
 
 function truncateField(value: string): string {
-  if (value.length <= 1024) return value;
-  return value.slice(0, 1021) + "...";
+  return truncateText(value, 1024);
+}
+
+function truncateText(value: string, maxLength: number): string {
+  if (value.length <= maxLength) return value;
+  return value.slice(0, maxLength - 3) + "...";
 }
 
 function guildIndexKey(guildId: string): string {
@@ -929,7 +5336,10 @@ async function listAllKeys(kv: KVNamespace, prefix: string): Promise<string[]> {
   const keys: string[] = [];
 
   do {
-    const response = await kv.list({ prefix, cursor });
+    const response: KVNamespaceListResult<unknown> = await kv.list({
+      prefix,
+      cursor,
+    });
     keys.push(...response.keys.map((key) => key.name));
     cursor = response.list_complete ? undefined : response.cursor;
   } while (cursor);
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { diffItems, rememberItems } from "../src/index";
+
+type Item = Parameters<typeof diffItems>[0][number];
+
+function item(id: string, day: number, overrides: Partial<Item> = {}): Item {
+  return {
+    id,
+    title: `Post ${id}`,
+    link: `https://blog.example.com/${id}`,
+    key: `https://blog.example.com/${id}`,
+    date: Date.UTC(2024, 0, day),
+    ...overrides,
+  };
+}
+
+const ids = (items: Item[]) => items.map((entry) => entry.id);
+
+describe("diffItems", () => {
+  it("treats every item as seen on the first run", () => {
+    const items = [item("2", 2), item("1", 1)];
+    const { newItems, latestItem } = diffItems(items);
+    expect(newItems).toEqual([]);
+    expect(latestItem?.id).toBe("2");
+  });
+
+  it("returns unseen items oldest first", () => {
+    const history = rememberItems(null, [item("1", 1)]);
+    const { newItems } = diffItems(
+      [item("3", 3), item("2", 2), item("1", 1)],
+      history
+    );
+    expect(ids(newItems)).toEqual(["2", "3"]);
+  });
+
+  it("ignores reordered feeds", () => {
+    const items = [item("1", 1), item("2", 2), item("3", 3)];
+    const history = rememberItems(null, items);
+    const { newItems } = diffItems([items[2], items[0], items[1]], history);
+    expect(newItems).toEqual([]);
+  });
+
+  it("does not repost edited items", () => {
+    const history = rememberItems(null, [item("1", 1), item("2", 2)]);
+    const edited = [
+      item("1", 1, { title: "Post 1 (updated)", date: Date.UTC(2024, 1, 1) }),
+      item("2-renamed", 2, { key: "https://blog.example.com/2" }),
+    ];
+    expect(diffItems(edited, history).newItems).toEqual([]);
+  });
+
+  it("detects new items when the last-seen entry was dropped", () => {
+    const history = rememberItems(null, [item("1", 1), item("2", 2)]);
+    const { newItems } = diffItems([item("3", 3), item("1", 1)], history);
+    expect(ids(newItems)).toEqual(["3"]);
+  });
+
+  it("detects items inserted behind the newest entry", () => {
+    const history = rememberItems(null, [item("1", 1), item("3", 3)]);
+    const { newItems } = diffItems(
+      [item("3", 3), item("2", 2), item("1", 1)],
+      history
+    );
+    expect(ids(newItems)).toEqual(["2"]);
+  });
+
+  it("posts undated items in reverse document order", () => {
+    const undated = (id: string) => item(id, 1, { date: undefined });
+    const history = rememberItems(null, [undated("1")]);
+    const { newItems } = diffItems(
+      [undated("3"), undated("2"), undated("1")],
+      history
+    );
+    expect(ids(newItems)).toEqual(["2", "3"]);
+  });
+
+  it("falls back to the legacy cursor when no history exists", () => {
+    const { newItems } = diffItems(
+      [item("3", 3), item("2", 2), item("1", 1)],
+      null,
+      { lastItemId: "2", lastItemKey: "https://blog.example.com/2" }
+    );
+    expect(ids(newItems)).toEqual(["3"]);
+  });
+});
+
+describe("rememberItems", () => {
+  it("keeps the newest fingerprints within the limit", () => {
+    const older = Array.from({ length: 500 }, (_, i) => item(`old-${i}`, 1));
+    const history = rememberItems(rememberItems(null, older), [item("new", 2)]);
+    expect(history.ids).toHaveLength(500);
+    expect(history.ids[0]).toBe("new");
+    expect(history.ids).not.toContain("old-499");
+    expect(history.keys[0]).toBe("https://blog.example.com/new");
+  });
+
+  it("never drops items that are still in the feed", () => {
+    const items = Array.from({ length: 600 }, (_, i) => item(`${i}`, 1));
+    const history = rememberItems(null, items);
+    expect(history.ids).toHaveLength(600);
+    expect(diffItems(items, history).newItems).toEqual([]);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { buildDigestMessages } from "../src/index";
+
+function entries(count: number, titleLength = 40) {
+  return Array.from({ length: count }, (_, i) => ({
+    title: `${i}`.padEnd(titleLength, "x"),
+    link: `https://blog.example.com/posts/${i}`,
+  }));
+}
+
+describe("buildDigestMessages", () => {
+  it("lists titles and links grouped by feed", () => {
+    const messages = buildDigestMessages([
+      {
+        feedTitle: "Blog A",
+        entries: [{ title: "Hello [world]", link: "https://a.example/1" }],
+      },
+      { feedTitle: "Blog B", entries: [{ title: "No link" }] },
+      {
+        feedTitle: "Blog C",
+        entries: [
+          {
+            title: "Parens",
+            link: "https://c.example/wiki/Foo_(bar) baz",
+          },
+        ],
+      },
+    ]);
+    expect(messages).toEqual([
+      {
+        content: "📰 ダイジェスト（3 件）",
+        embeds: [
+          {
+            title: "Blog A",
+            description: "• [Hello world](https://a.example/1)",
+            color: 0x3b82f6,
+          },
+          { title: "Blog B", description: "• No link", color: 0x3b82f6 },
+          {
+            title: "Blog C",
+            description:
+              "• [Parens](https://c.example/wiki/Foo_%28bar%29%20baz)",
+            color: 0x3b82f6,
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("reports items dropped over the queue limit", () => {
+    const messages = buildDigestMessages([
+      { feedTitle: "Blog A", entries: entries(2), dropped: 5 },
+    ]);
+    expect(messages[0].content).toBe("📰 ダイジェスト（7 件）");
+    const description = String(messages[0].embeds?.[0].description);
+    expect(description.split("\n")).toHaveLength(3);
+    expect(description).toContain("ほか 5 件");
+  });
+
+  it("splits long sections and messages within Discord limits", () => {
+    const sections = Array.from({ length: 12 }, (_, i) => ({
+      feedTitle: `Feed ${i}`,
+      entries: entries(i === 0 ? 100 : 3, i === 0 ? 200 : 40),
+    }));
+    const messages = buildDigestMessages(sections);
+
+    const embeds = messages.flatMap((message) => message.embeds ?? []);
+    expect(embeds[0].title).toBe("Feed 0");
+    expect(embeds[1].title).toBe("Feed 0 (続き)");
+    for (const message of messages) {
+      const list = message.embeds ?? [];
+      expect(list.length).toBeLessThanOrEqual(10);
+      const size = list.reduce(
+        (sum, embed) =>
+          sum + String(embed.title).length + String(embed.description).length,
+        0
+      );
+      expect(size).toBeLessThanOrEqual(6000);
+      for (const embed of list) {
+        expect(String(embed.description).length).toBeLessThanOrEqual(4096);
+      }
+    }
+    const lines = embeds.flatMap((embed) =>
+      String(embed.description).split("\n")
+    );
+    expect(lines).toHaveLength(133);
+    expect(messages[0].content).toBe("📰 ダイジェスト（133 件）");
+    expect(messages.slice(1).every((message) => !message.content)).toBe(true);
+  });
+});
@@ -0,0 +1,17 @@
+declare module "cloudflare:test" {
+  interface ProvidedEnv {
+    FEED_KV: KVNamespace;
+    FEED_QUEUE: Queue;
+    DISCORD_PUBLIC_KEY: string;
+    DISCORD_BOT_TOKEN: string;
+    BOT_OWNER_IDS: string;
+    AI: {
+      run(model: string, inputs: Record<string, unknown>): Promise<unknown>;
+    };
+  }
+}
+
+declare module "*?raw" {
+  const content: string;
+  export default content;
+}
@@ -0,0 +1,49 @@
+import { fetchMock } from "cloudflare:test";
+
+export function mockDiscordPosts(channelId: string, times = 1): string[] {
+  const posted: string[] = [];
+  fetchMock
+    .get("https://discord.com")
+    .intercept({
+      method: "POST",
+      path: `/api/v10/channels/${channelId}/messages`,
+    })
+    .reply(200, (request) => {
+      posted.push(JSON.parse(String(request.body)).content);
+      return { id: "1" };
+    })
+    .times(times);
+  return posted;
+}
+
+export function mockFeed(
+  url: string,
+  body: string,
+  contentType = "application/rss+xml"
+): void {
+  const { origin, pathname, search } = new URL(url);
+  fetchMock
+    .get(origin)
+    .intercept({ path: pathname + search })
+    .reply(200, body, { headers: { "Content-Type": contentType } });
+}
+
+export function mockInteractionEdits(
+  applicationId: string,
+  token: string,
+  times = 1
+): Record<string, any>[] {
+  const edits: Record<string, any>[] = [];
+  fetchMock
+    .get("https://discord.com")
+    .intercept({
+      method: "PATCH",
+      path: `/api/v10/webhooks/${applicationId}/${token}/messages/@original`,
+    })
+    .reply(200, (request) => {
+      edits.push(JSON.parse(String(request.body)));
+      return { id: "1" };
+    })
+    .times(times);
+  return edits;
+}
@@ -0,0 +1,38 @@
+import nacl from "tweetnacl";
+
+// Deterministic key pair; its public key is bound as DISCORD_PUBLIC_KEY in
+// vitest.config.ts.
+const keyPair = nacl.sign.keyPair.fromSeed(new Uint8Array(32).fill(7));
+const encoder = new TextEncoder();
+
+export const PUBLIC_KEY = toHex(keyPair.publicKey);
+
+export function signInteraction(
+  body: string,
+  timestamp = String(Math.floor(Date.now() / 1000))
+): Record<string, string> {
+  const signature = nacl.sign.detached(
+    encoder.encode(timestamp + body),
+    keyPair.secretKey
+  );
+  return {
+    "Content-Type": "application/json",
+    "X-Signature-Ed25519": toHex(signature),
+    "X-Signature-Timestamp": timestamp,
+  };
+}
+
+export function interactionRequest(interaction: unknown): Request {
+  const body = JSON.stringify(interaction);
+  return new Request("https://feed-worker.example/interactions", {
+    method: "POST",
+    headers: signInteraction(body),
+    body,
+  });
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join(
+    ""
+  );
+}
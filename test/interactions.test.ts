@@ -0,0 +1,749 @@
+import { env, fetchMock, SELF } from "cloudflare:test";
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import githubAtom from "./fixtures/feeds/github-releases-atom.xml?raw";
+import jsonFeed from "./fixtures/feeds/jsonfeed.json?raw";
+import wordpressRss from "./fixtures/feeds/wordpress-rss2.xml?raw";
+import { mockFeed, mockInteractionEdits } from "./helpers/discord";
+import { interactionRequest, signInteraction } from "./helpers/signing";
+
+const GUILD_ID = "100000000000000001";
+const CHANNEL_ID = "200000000000000001";
+const FEED_URL = "https://engineering.example.com/feed/";
+const APPLICATION_ID = "300000000000000001";
+const TOKEN = "interaction-token";
+const MANAGE_CHANNELS = String(1 << 4);
+const MANAGE_GUILD = String(1 << 5);
+const VIEW_CHANNEL = 1 << 10;
+
+const moderator = { roles: [], permissions: MANAGE_CHANNELS };
+
+function command(
+  name: string,
+  options: unknown[] = [],
+  member: unknown = moderator
+) {
+  return {
+    type: 2,
+    guild_id: GUILD_ID,
+    channel_id: CHANNEL_ID,
+    application_id: APPLICATION_ID,
+    token: TOKEN,
+    member,
+    data: { name: "feed", options: [{ name, type: 1, options }] },
+  };
+}
+
+async function send(interaction: unknown): Promise<any> {
+  const response = await SELF.fetch(interactionRequest(interaction));
+  expect(response.status).toBe(200);
+  return response.json();
+}
+
+async function sendDeferred(
+  interaction: unknown,
+  type = 5
+): Promise<Record<string, any>> {
+  const edits = mockInteractionEdits(APPLICATION_ID, TOKEN);
+  expect(await send(interaction)).toMatchObject({ type });
+  await vi.waitFor(() => expect(edits).toHaveLength(1));
+  return edits[0];
+}
+
+async function subscribe(url = FEED_URL): Promise<string> {
+  mockFeed(url, wordpressRss);
+  const reply = await sendDeferred(
+    command("subscribe", [{ name: "url", type: 3, value: url }])
+  );
+  expect(reply.embeds[0].title).toBe("購読を追加しました");
+  return reply.embeds[0].fields.find((field: any) => field.name === "ID").value;
+}
+
+beforeAll(() => {
+  fetchMock.activate();
+  fetchMock.disableNetConnect();
+});
+
+afterEach(() => {
+  fetchMock.assertNoPendingInterceptors();
+});
+
+describe("request verification", () => {
+  it("answers pings signed with the application key", async () => {
+    expect(await send({ type: 1 })).toEqual({ type: 1 });
+  });
+
+  it("rejects requests whose signature does not match the body", async () => {
+    const headers = signInteraction(JSON.stringify({ type: 1 }));
+    const response = await SELF.fetch(
+      "https://feed-worker.example/interactions",
+      {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ type: 2 }),
+      }
+    );
+    expect(response.status).toBe(401);
+  });
+
+  it("rejects requests without signature headers", async () => {
+    const response = await SELF.fetch(
+      "https://feed-worker.example/interactions",
+      { method: "POST", body: JSON.stringify({ type: 1 }) }
+    );
+    expect(response.status).toBe(400);
+  });
+
+  it("only serves the interactions endpoint", async () => {
+    const response = await SELF.fetch("https://feed-worker.example/");
+    expect(response.status).toBe(404);
+  });
+});
+
+describe("/feed commands", () => {
+  it("subscribes, lists and unsubscribes a feed", async () => {
+    const id = await subscribe();
+
+    const stored = await env.FEED_KV.get<Record<string, unknown>>(
+      `sub:g:${GUILD_ID}:${id}`,
+      "json"
+    );
+    expect(stored).toMatchObject({
+      url: FEED_URL,
+      channelId: CHANNEL_ID,
+      feedTitle: "Example Engineering – Notes from the team",
+      feedFormat: "rss",
+      messageStyle: "plain",
+    });
+
+    const list = await send(command("list"));
+    expect(JSON.stringify(list.data.embeds)).toContain(id);
+
+    const removed = await send(
+      command("unsubscribe", [{ name: "subscribed_id", type: 3, value: id }])
+    );
+    expect(removed.data.embeds[0].title).toBe("購読を解除しました");
+    expect(await env.FEED_KV.get(`sub:g:${GUILD_ID}:${id}`)).toBeNull();
+
+    const empty = await send(command("list"));
+    expect(empty.data.content).toBe("このサーバーには購読がありません。");
+  });
+
+  it("reports a duplicate subscription without fetching again", async () => {
+    const id = await subscribe();
+    const reply = await sendDeferred(
+      command("subscribe", [{ name: "url", type: 3, value: FEED_URL }])
+    );
+    expect(reply.embeds[0].title).toBe("すでに購読済み");
+    expect(reply.embeds[0].fields[1].value).toBe(id);
+  });
+
+  it("validates filters before saving edits", async () => {
+    const id = await subscribe();
+    const invalid = await send(
+      command("edit", [
+        { name: "subscribed_id", type: 3, value: id },
+        { name: "include", type: 3, value: "/(/" },
+      ])
+    );
+    expect(invalid.data.content).toBe("正規表現の形式が正しくありません: /(/");
+
+    const updated = await send(
+      command("edit", [
+        { name: "subscribed_id", type: 3, value: id },
+        { name: "style", type: 3, value: "embed" },
+        { name: "exclude", type: 3, value: "category:Incidents" },
+      ])
+    );
+    expect(updated.data.embeds[0].title).toBe("購読を更新しました");
+    const stored = await env.FEED_KV.get<Record<string, unknown>>(
+      `sub:g:${GUILD_ID}:${id}`,
+      "json"
+    );
+    expect(stored).toMatchObject({
+      messageStyle: "embed",
+      filters: { exclude: [{ type: "category", value: "Incidents" }] },
+    });
+
+    await send(
+      command("edit", [
+        { name: "subscribed_id", type: 3, value: id },
+        {
+          name: "include",
+          type: 3,
+          value: "/v\\d{1,3}\\./, /[a/b],c/, release",
+        },
+      ])
+    );
+    expect(
+      await env.FEED_KV.get(`sub:g:${GUILD_ID}:${id}`, "json")
+    ).toMatchObject({
+      filters: {
+        include: [
+          { type: "regex", value: "/v\\d{1,3}\\./" },
+          { type: "regex", value: "/[a/b],c/" },
+          { type: "keyword", value: "release" },
+        ],
+      },
+    });
+
+    const badSchedule = await send(
+      command("edit", [
+        { name: "subscribed_id", type: 3, value: id },
+        { name: "quiet_hours", type: 3, value: "late" },
+      ])
+    );
+    expect(badSchedule.data.content).toContain("quiet_hours");
+
+    const scheduled = await send(
+      command("edit", [
+        { name: "subscribed_id", type: 3, value: id },
+        { name: "interval", type: 4, value: 360 },
+        { name: "quiet_hours", type: 3, value: "22:00-07:00" },
+        { name: "timezone", type: 3, value: "Europe/Berlin" },
+      ])
+    );
+    expect(scheduled.data.embeds[0].fields).toContainEqual({
+      name: "静音時間",
+      value: "22:00-07:00 (Europe/Berlin)",
+      inline: true,
+    });
+    expect(
+      await env.FEED_KV.get(`sub:g:${GUILD_ID}:${id}`, "json")
+    ).toMatchObject({
+      pollIntervalMinutes: 360,
+      quietHours: { start: "22:00", end: "07:00", timeZone: "Europe/Berlin" },
+    });
+
+    const badLanguages = await send(
+      command("edit", [
+        { name: "subscribed_id", type: 3, value: id },
+        { name: "languages", type: 3, value: "ja, japanese" },
+      ])
+    );
+    expect(badLanguages.data.content).toContain("japanese");
+
+    const localized = await send(
+      command("edit", [
+        { name: "subscribed_id", type: 3, value: id },
+        { name: "translate", type: 3, value: "ja-JP" },
+        { name: "languages", type: 3, value: "EN, ja" },
+      ])
+    );
+    expect(localized.data.embeds[0].fields).toEqual(
+      expect.arrayContaining([
+        { name: "翻訳", value: "ja", inline: true },
+        { name: "言語", value: "en, ja", inline: true },
+      ])
+    );
+  });
+
+  it("offers discovered feeds and subscribes to the picked one", async () => {
+    const page = `<!doctype html><html><head>
+<link rel="alternate" type="application/rss+xml" title="Posts" href="/feed/">
+<link rel="alternate" type="application/atom+xml" title="Comments" href="/comments/feed/">
+</head><body></body></html>`;
+    mockFeed("https://engineering.example.com/", page, "text/html");
+    const prompt = await sendDeferred(
+      command("subscribe", [
+        { name: "url", type: 3, value: "https://engineering.example.com/" },
+      ])
+    );
+    const menu = prompt.components[0].components[0];
+    expect(menu.options.map((option: any) => option.label)).toEqual([
+      "Posts",
+      "Comments",
+    ]);
+
+    mockFeed(FEED_URL, wordpressRss);
+    const picked = await sendDeferred(
+      {
+        type: 3,
+        guild_id: GUILD_ID,
+        channel_id: CHANNEL_ID,
+        member: moderator,
+        application_id: APPLICATION_ID,
+        token: TOKEN,
+        data: { custom_id: menu.custom_id, values: ["0"] },
+      },
+      6
+    );
+    expect(picked.components).toEqual([]);
+    expect(picked.embeds[0].title).toBe("購読を追加しました");
+    expect(picked.embeds[0].fields).toContainEqual({
+      name: "URL",
+      value: FEED_URL,
+    });
+  });
+
+  it("subscribes to a feed served as text/html without discovery", async () => {
+    mockFeed(FEED_URL, wordpressRss, "text/html; charset=UTF-8");
+    const reply = await sendDeferred(
+      command("subscribe", [{ name: "url", type: 3, value: FEED_URL }])
+    );
+    expect(reply.embeds[0].title).toBe("購読を追加しました");
+  });
+
+  it("imports feeds from an OPML attachment", async () => {
+    await subscribe();
+    const opml = `<?xml version="1.0"?>
+<opml version="2.0"><head><title>Reader export</title></head><body>
+  <outline text="Engineering">
+    <outline type="rss" text="Example Engineering" xmlUrl="${FEED_URL}"/>
+    <outline type="rss" text="Releases" xmlUrl="https://github.com/example/toolkit/releases.atom"/>
+  </outline>
+  <outline type="rss" text="Gone" xmlUrl="https://gone.example.com/rss"/>
+  <outline text="No feed here" htmlUrl="https://example.com/"/>
+</body></opml>`;
+    mockFeed("https://cdn.discordapp.com/attachments/1/2/feeds.opml", opml);
+    mockFeed(
+      "https://github.com/example/toolkit/releases.atom",
+      githubAtom,
+      "application/atom+xml"
+    );
+    fetchMock
+      .get("https://gone.example.com")
+      .intercept({ path: "/rss" })
+      .reply(404, "not found");
+
+    const interaction = command("import", [
+      { name: "file", type: 11, value: "900" },
+    ]);
+    const reply = await sendDeferred({
+      ...interaction,
+      data: {
+        ...interaction.data,
+        resolved: {
+          attachments: {
+            "900": {
+              id: "900",
+              filename: "feeds.opml",
+              size: opml.length,
+              url: "https://cdn.discordapp.com/attachments/1/2/feeds.opml",
+            },
+          },
+        },
+      },
+    });
+
+    const fields = Object.fromEntries(
+      reply.embeds[0].fields.map((field: any) => [field.name, field.value])
+    );
+    expect(fields).toMatchObject({
+      追加: "1",
+      購読済み: "1",
+      失敗: "1",
+      追加したフィード: "https://github.com/example/toolkit/releases.atom",
+    });
+    expect(fields["失敗したフィード"]).toContain(
+      "https://gone.example.com/rss"
+    );
+
+    const list = await send(command("list"));
+    expect(JSON.stringify(list.data.embeds)).toContain(
+      "Release notes from toolkit"
+    );
+  });
+
+  it("subscribes a forum channel with tags resolved by name", async () => {
+    const FORUM_ID = "200000000000000009";
+    fetchMock
+      .get("https://discord.com")
+      .intercept({ method: "GET", path: `/api/v10/channels/${FORUM_ID}` })
+      .reply(200, {
+        id: FORUM_ID,
+        type: 15,
+        available_tags: [
+          { id: "700000000000000001", name: "Release" },
+          { id: "700000000000000002", name: "Blog" },
+        ],
+      })
+      .times(2);
+    const interaction = (
+      tags: string,
+      permissions = VIEW_CHANNEL | Number(MANAGE_CHANNELS)
+    ) => {
+      const base = command("subscribe", [
+        { name: "url", type: 3, value: FEED_URL },
+        { name: "channel", type: 7, value: FORUM_ID },
+        { name: "tags", type: 3, value: tags },
+      ]);
+      const resolved = {
+        channels: {
+          [FORUM_ID]: {
+            id: FORUM_ID,
+            type: 15,
+            permissions: String(permissions),
+          },
+        },
+      };
+      return { ...base, data: { ...base.data, resolved } };
+    };
+
+    const denied = await send(interaction("release", VIEW_CHANNEL));
+    expect(denied.type).toBe(4);
+    expect(denied.data.content).toContain("権限がありません");
+
+    mockFeed(FEED_URL, wordpressRss);
+    const rejected = await sendDeferred(interaction("release, News"));
+    expect(rejected.embeds[0].title).toBe("購読できませんでした");
+    expect(rejected.embeds[0].description).toContain("News");
+    expect(rejected.embeds[0].description).toContain("Release, Blog");
+
+    mockFeed(FEED_URL, wordpressRss);
+    const reply = await sendDeferred(interaction("release"));
+    expect(reply.embeds[0].title).toBe("購読を追加しました");
+    const id = reply.embeds[0].fields.find(
+      (field: any) => field.name === "ID"
+    ).value;
+    expect(
+      await env.FEED_KV.get(`sub:g:${GUILD_ID}:${id}`, "json")
+    ).toMatchObject({
+      channelId: FORUM_ID,
+      delivery: { type: "forum", tagIds: ["700000000000000001"] },
+    });
+  });
+
+  it("reports a webhook that cannot be read instead of failing the reply", async () => {
+    fetchMock
+      .get("https://discord.com")
+      .intercept({
+        method: "GET",
+        path: "/api/v10/webhooks/600000000000000001/token",
+      })
+      .reply(200, "<html>bad gateway</html>");
+
+    mockFeed(FEED_URL, wordpressRss);
+    const reply = await sendDeferred(
+      command("subscribe", [
+        { name: "url", type: 3, value: FEED_URL },
+        {
+          name: "webhook_url",
+          type: 3,
+          value: "https://discord.com/api/webhooks/600000000000000001/token",
+        },
+      ])
+    );
+    expect(reply.embeds[0].title).toBe("購読できませんでした");
+    expect(reply.embeds[0].description).toBe(
+      "Webhook の確認中にエラーが発生しました。"
+    );
+  });
+
+  it("only accepts publish when the channel is known to be an announcement channel", async () => {
+    const interaction = (channel?: { id: string; type: number }) => ({
+      ...command("subscribe", [
+        { name: "url", type: 3, value: FEED_URL },
+        { name: "publish", type: 5, value: true },
+      ]),
+      channel,
+    });
+
+    mockFeed(FEED_URL, wordpressRss);
+    const unknown = await sendDeferred(interaction());
+    expect(unknown.embeds[0].description).toContain(
+      "publish はアナウンスチャンネルでのみ使えます"
+    );
+
+    mockFeed(FEED_URL, wordpressRss);
+    const reply = await sendDeferred(interaction({ id: CHANNEL_ID, type: 5 }));
+    expect(reply.embeds[0].title).toBe("購読を追加しました");
+  });
+
+  it("manages mention rules per role and user", async () => {
+    const id = await subscribe();
+    const ROLE_ID = "600000000000000001";
+    const USER_ID = "600000000000000003";
+
+    const invalid = await send(
+      command("mention", [
+        { name: "subscribed_id", type: 3, value: id },
+        { name: "role", type: 8, value: ROLE_ID },
+        { name: "when", type: 3, value: "/(/" },
+      ])
+    );
+    expect(invalid.data.content).toContain("正規表現の形式が正しくありません");
+
+    await send(
+      command("mention", [
+        { name: "subscribed_id", type: 3, value: id },
+        { name: "role", type: 8, value: ROLE_ID },
+        { name: "when", type: 3, value: "/CVE|vulnerability/i" },
+      ])
+    );
+    const updated = await send(
+      command("mention", [
+        { name: "subscribed_id", type: 3, value: id },
+        { name: "user", type: 6, value: USER_ID },
+      ])
+    );
+    expect(updated.data.embeds[0].fields[1].value).toBe(
+      `<@&${ROLE_ID}>: /CVE|vulnerability/i\n<@${USER_ID}>: 常に`
+    );
+    expect(updated.data.allowed_mentions).toEqual({ parse: [] });
+
+    await send(
+      command("mention", [
+        { name: "subscribed_id", type: 3, value: id },
+        { name: "role", type: 8, value: ROLE_ID },
+        { name: "remove", type: 5, value: true },
+      ])
+    );
+    const stored = await env.FEED_KV.get<Record<string, unknown>>(
+      `sub:g:${GUILD_ID}:${id}`,
+      "json"
+    );
+    expect(stored?.mentions).toEqual([{ userId: USER_ID, when: [] }]);
+  });
+
+  it("exports every subscription as an OPML attachment", async () => {
+    await subscribe();
+    const JSON_FEED_URL = "https://notes.example.com/feed.json";
+    mockFeed(JSON_FEED_URL, jsonFeed, "application/feed+json");
+    await sendDeferred(
+      command("subscribe", [{ name: "url", type: 3, value: JSON_FEED_URL }])
+    );
+
+    const response = await SELF.fetch(interactionRequest(command("export")));
+    const form = await response.formData();
+    const payload = JSON.parse(String(form.get("payload_json")));
+    expect(payload).toMatchObject({
+      type: 4,
+      data: { attachments: [{ id: 0, filename: `feeds-${GUILD_ID}.opml` }] },
+    });
+    const file = form.get("files[0]") as unknown as File;
+    const opml = await file.text();
+    expect(opml).toContain(`<outline text="#${CHANNEL_ID}"`);
+    expect(opml).toContain(
+      '<outline type="rss" text="Example Engineering – Notes from the team" title="Example Engineering – Notes from the team" xmlUrl="https://engineering.example.com/feed/"'
+    );
+    expect(opml).toMatch(
+      /<outline type="json" [^>]*xmlUrl="https:\/\/notes\.example\.com\/feed\.json"/
+    );
+  });
+
+  it("suggests subscriptions while typing subscribed_id", async () => {
+    const id = await subscribe();
+
+    const autocomplete = (value: string) => ({
+      type: 4,
+      guild_id: GUILD_ID,
+      channel_id: CHANNEL_ID,
+      data: {
+        name: "feed",
+        options: [
+          {
+            name: "unsubscribe",
+            type: 1,
+            options: [{ name: "subscribed_id", type: 3, value, focused: true }],
+          },
+        ],
+      },
+    });
+
+    expect(await send(autocomplete("engineering"))).toEqual({
+      type: 8,
+      data: {
+        choices: [
+          {
+            name: "Example Engineering – Notes from the team - https://engineering.example.com/feed/",
+            value: id,
+          },
+        ],
+      },
+    });
+    expect(await send(autocomplete("podcast"))).toEqual({
+      type: 8,
+      data: { choices: [] },
+    });
+  });
+
+  it("pages through the list and acts on entries with buttons", async () => {
+    const ids: string[] = [];
+    for (let i = 0; i < 6; i += 1) {
+      const id = `01J0000000000000000000000${i}`;
+      ids.push(id);
+      await env.FEED_KV.put(
+        `sub:g:${GUILD_ID}:${id}`,
+        JSON.stringify({
+          id,
+          guildId: GUILD_ID,
+          channelId: i === 5 ? "200000000000000002" : CHANNEL_ID,
+          url: `https://blog${i}.example.com/feed`,
+          feedTitle: `Blog ${i}`,
+          createdAt: i,
+        })
+      );
+    }
+    await env.FEED_KV.put(`subindex:g:${GUILD_ID}`, JSON.stringify(ids));
+
+    const first = await send(
+      command("list", [{ name: "channel", type: 7, value: CHANNEL_ID }])
+    );
+    expect(first.data.embeds[0].title).toBe("購読一覧 (5)");
+    expect(first.data.embeds[0].footer.text).toBe("ページ 1 / 2");
+    expect(first.data.components).toHaveLength(5);
+    const nav = first.data.components[4].components;
+    expect(nav[0].disabled).toBe(true);
+
+    const click = (customId: string) =>
+      send({
+        type: 3,
+        guild_id: GUILD_ID,
+        channel_id: CHANNEL_ID,
+        member: moderator,
+        data: { custom_id: customId, component_type: 2 },
+      });
+
+    const second = await click(nav[1].custom_id);
+    expect(second.type).toBe(7);
+    expect(second.data.embeds[0].fields).toHaveLength(1);
+    expect(second.data.embeds[0].fields[0].name).toBe("1. Blog 4");
+
+    const [unsubscribe, pause] = second.data.components[0].components;
+    const paused = await click(pause.custom_id);
+    expect(paused.data.content).toBe("一時停止しました: Blog 4");
+    expect(paused.data.components[0].components[1].label).toBe("1. 再開");
+    const stored = await env.FEED_KV.get<{ pausedByUser?: boolean }>(
+      `sub:g:${GUILD_ID}:${ids[4]}`,
+      "json"
+    );
+    expect(stored?.pausedByUser).toBe(true);
+
+    const removed = await click(unsubscribe.custom_id);
+    expect(removed.data.content).toBe("購読を解除しました: Blog 4");
+    expect(removed.data.embeds[0].title).toBe("購読一覧 (4)");
+    expect(removed.data.embeds[0].footer.text).toBe("ページ 1 / 1");
+    expect(await env.FEED_KV.get(`sub:g:${GUILD_ID}:${ids[4]}`)).toBeNull();
+
+    const searched = await send(
+      command("list", [{ name: "query", type: 3, value: "blog5" }])
+    );
+    expect(
+      searched.data.embeds[0].fields.map((field: any) => field.name)
+    ).toEqual(["1. Blog 5"]);
+  });
+});
+
+describe("permissions", () => {
+  const member = { roles: ["400000000000000001"], permissions: "0" };
+
+  function configure(options: unknown[], as: unknown) {
+    return send({
+      ...command("config", [], as),
+      data: {
+        name: "feed",
+        options: [
+          {
+            name: "config",
+            type: 2,
+            options: [{ name: "manager-role", type: 1, options }],
+          },
+        ],
+      },
+    });
+  }
+
+  it("lets only moderators or the manager role change subscriptions", async () => {
+    const id = await subscribe();
+    const unsubscribe = (as: unknown) =>
+      send(
+        command(
+          "unsubscribe",
+          [{ name: "subscribed_id", type: 3, value: id }],
+          as
+        )
+      );
+
+    const denied = await unsubscribe(member);
+    expect(denied.data.content).toContain("購読を管理する権限がありません");
+    expect(await env.FEED_KV.get(`sub:g:${GUILD_ID}:${id}`)).not.toBeNull();
+
+    const list = await send(command("list", [], member));
+    expect(JSON.stringify(list.data.embeds)).toContain(id);
+
+    const rejected = await configure(
+      [{ name: "role", type: 8, value: "400000000000000001" }],
+      moderator
+    );
+    expect(rejected.data.content).toContain("サーバーの管理");
+
+    const configured = await configure(
+      [{ name: "role", type: 8, value: "400000000000000001" }],
+      { roles: [], permissions: MANAGE_GUILD }
+    );
+    expect(configured.data.embeds[0].fields[0].value).toBe(
+      "<@&400000000000000001>"
+    );
+
+    const allowed = await unsubscribe(member);
+    expect(allowed.data.embeds[0].title).toBe("購読を解除しました");
+  });
+
+  it("enforces per-guild quotas that only bot owners can raise", async () => {
+    await subscribe();
+    const owner = {
+      roles: [],
+      permissions: MANAGE_CHANNELS,
+      user: { id: "500000000000000001" },
+    };
+    const quota = (as: unknown) =>
+      send(
+        command("quota", [{ name: "max_per_channel", type: 4, value: 1 }], as)
+      );
+
+    const denied = await quota({ ...moderator, user: { id: "1" } });
+    expect(denied.data.content).toBe(
+      "このコマンドはボットの管理者だけが実行できます。"
+    );
+
+    const updated = await quota(owner);
+    expect(updated.data.embeds[0].title).toBe("上限を更新しました");
+    expect(updated.data.embeds[0].fields[2].value).toBe("1");
+
+    const reply = await sendDeferred(
+      command("subscribe", [
+        {
+          name: "url",
+          type: 3,
+          value: "https://github.com/example/toolkit/releases.atom",
+        },
+      ])
+    );
+    expect(reply.embeds[0].title).toBe("購読数の上限に達しました");
+  });
+
+  it("starts new subscriptions at the guild's minimum interval", async () => {
+    const owner = {
+      roles: [],
+      permissions: MANAGE_CHANNELS,
+      user: { id: "500000000000000001" },
+    };
+    await send(
+      command("quota", [{ name: "min_interval", type: 4, value: 30 }], owner)
+    );
+
+    const id = await subscribe();
+    expect(
+      await env.FEED_KV.get(`sub:g:${GUILD_ID}:${id}`, "json")
+    ).toMatchObject({ pollIntervalMinutes: 30 });
+  });
+
+  it("configures a weekly digest for the channel", async () => {
+    const reply = await send(
+      command("digest", [
+        { name: "frequency", type: 3, value: "weekly" },
+        { name: "weekday", type: 4, value: 5 },
+        { name: "time", type: 3, value: "18:30" },
+      ])
+    );
+    expect(reply.data.embeds[0].fields[1].value).toBe(
+      "毎週金曜 18:30 (Asia/Tokyo)"
+    );
+
+    const off = await send(
+      command("digest", [{ name: "frequency", type: 3, value: "off" }])
+    );
+    expect(off.data.content).toContain("ダイジェストを解除しました");
+    expect(await env.FEED_KV.get(`digestcfg:${CHANNEL_ID}`)).toBeNull();
+  });
+});
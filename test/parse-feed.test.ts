@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+import { detectLanguage, normalizeLinkKey, parseFeed } from "../src/index";
+import githubAtom from "./fixtures/feeds/github-releases-atom.xml?raw";
+import hatenaRdf from "./fixtures/feeds/hatena-rdf.xml?raw";
+import jsonFeed from "./fixtures/feeds/jsonfeed.json?raw";
+import podcastRss from "./fixtures/feeds/podcast-rss2.xml?raw";
+import wordpressRss from "./fixtures/feeds/wordpress-rss2.xml?raw";
+
+describe("parseFeed", () => {
+  it("parses a WordPress RSS 2.0 feed", () => {
+    const feed = parseFeed(wordpressRss, "application/rss+xml; charset=UTF-8");
+    expect(feed.format).toBe("rss");
+    expect(feed.title).toBe("Example Engineering – Notes from the team");
+    expect(feed.image).toBe(
+      "https://engineering.example.com/wp-content/uploads/2023/01/cropped-icon-32x32.png"
+    );
+    expect(feed.items).toHaveLength(3);
+    expect(feed.items[0]).toMatchObject({
+      id: "https://engineering.example.com/?p=4812",
+      title: "Scaling our queue consumers to 10k messages/sec",
+      link: "https://engineering.example.com/2024/01/10/scaling-queue-consumers/?utm_source=rss&utm_medium=rss&utm_campaign=scaling-queue-consumers",
+      key: "https://engineering.example.com/2024/01/10/scaling-queue-consumers",
+      date: Date.parse("2024-01-10T09:00:00Z"),
+      author: "Alex Kim",
+      categories: ["Infrastructure", "Queues"],
+      image:
+        "https://engineering.example.com/wp-content/uploads/2024/01/queues.png",
+    });
+    expect(feed.items.map((item) => item.image)).toEqual([
+      "https://engineering.example.com/wp-content/uploads/2024/01/queues.png",
+      "https://engineering.example.com/wp-content/uploads/2024/01/timeline.jpg",
+      "https://engineering.example.com/wp-content/uploads/2023/12/banner.webp",
+    ]);
+  });
+
+  it("parses a GitHub releases Atom feed", () => {
+    const feed = parseFeed(githubAtom, "application/atom+xml");
+    expect(feed).toMatchObject({
+      format: "atom",
+      title: "Release notes from toolkit",
+      link: "https://github.com/example/toolkit/releases",
+    });
+    expect(feed.items.map((item) => item.title)).toEqual(["v2.1.0", "v2.0.1"]);
+    expect(feed.items[0]).toMatchObject({
+      id: "tag:github.com,2008:Repository/123456/v2.1.0",
+      link: "https://github.com/example/toolkit/releases/tag/v2.1.0",
+      date: Date.parse("2024-02-01T12:34:56Z"),
+      author: "octo-release-bot",
+      image: "https://avatars.githubusercontent.com/u/1000001?s=60&v=4",
+    });
+    expect(feed.items[1].categories).toEqual(["security"]);
+  });
+
+  it("parses an RSS 1.0 (RDF) feed with Dublin Core dates", () => {
+    const feed = parseFeed(hatenaRdf, "application/rdf+xml");
+    expect(feed.format).toBe("rdf");
+    expect(feed.title).toBe(
+      "はてなブックマーク - 人気エントリー - テクノロジー"
+    );
+    expect(feed.link).toBe("https://b.hatena.ne.jp/hotentry/it");
+    expect(feed.items).toHaveLength(2);
+    expect(feed.items[0]).toMatchObject({
+      id: "https://tech.example.jp/entry/2024/03/01/workers",
+      date: Date.parse("2024-03-01T01:15:00Z"),
+      categories: ["テクノロジー", "cloudflare"],
+    });
+    expect(feed.items[1].date).toBe(Date.parse("2024-02-28T12:00:00Z"));
+  });
+
+  it("leaves items sharing one link without a link key", () => {
+    const feed = parseFeed(podcastRss, "application/xml");
+    expect(feed.items.map((item) => item.id)).toEqual(["ep-42", "ep-41"]);
+    expect(feed.items.every((item) => item.key === undefined)).toBe(true);
+  });
+
+  it("parses a JSON Feed 1.1 document", () => {
+    const feed = parseFeed(jsonFeed, "application/feed+json");
+    expect(feed).toMatchObject({
+      format: "json",
+      title: "Static Site Notes",
+      image: "https://notes.example.dev/icon-512.png",
+    });
+    expect(feed.items[0]).toMatchObject({
+      title: "Why I publish JSON Feed",
+      author: "Riley",
+      categories: ["web", "feeds"],
+      image: "https://notes.example.dev/images/json-feed.png",
+    });
+    expect(feed.items[1]).toMatchObject({
+      id: "note-17",
+      title: "A short note without a title.",
+    });
+  });
+
+  it("takes item languages from xml:lang and <language>", () => {
+    expect(parseFeed(wordpressRss).language).toBe("en");
+    expect(parseFeed(githubAtom).items[0].language).toBe("en");
+    expect(parseFeed(hatenaRdf).items[0].language).toBe("ja");
+    expect(parseFeed(jsonFeed, "application/feed+json").language).toBe("en");
+
+    const mixed = parseFeed(`<?xml version="1.0"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="en">
+<entry xml:lang="ja-JP"><id>1</id><title>リリースノート</title></entry>
+<entry><id>2</id><title>Release notes</title></entry>
+</feed>`);
+    expect(mixed.items.map((item) => item.language)).toEqual(["ja", "en"]);
+  });
+
+  it("reports unknown documents", () => {
+    expect(parseFeed("<html><body>hi</body></html>", "text/xml")).toEqual({
+      items: [],
+      format: "unknown",
+    });
+  });
+});
+
+describe("normalizeLinkKey", () => {
+  it.each([
+    [
+      "https://example.com/post/?utm_source=rss&utm_medium=rss#comments",
+      "https://example.com/post",
+    ],
+    ["https://example.com/?b=2&a=1", "https://example.com/?a=1&b=2"],
+    ["https://example.com/", "https://example.com/"],
+    ["  https://example.com/a  ", "https://example.com/a"],
+  ])("normalizes %s", (link, expected) => {
+    expect(normalizeLinkKey(link)).toBe(expected);
+  });
+
+  it("ignores empty and unparsable links", () => {
+    expect(normalizeLinkKey(undefined)).toBeUndefined();
+    expect(normalizeLinkKey("   ")).toBeUndefined();
+  });
+});
+
+describe("detectLanguage", () => {
+  it.each([
+    ["Cloudflare Workers の新機能", "ja"],
+    ["새로운 기능 소개", "ko"],
+    ["Новые возможности", "ru"],
+    ["How to ship a release with the new CLI", "en"],
+  ])("detects %s", (text, expected) => {
+    expect(detectLanguage(text)).toBe(expected);
+  });
+
+  it("leaves ambiguous text undetected", () => {
+    expect(detectLanguage("東京都新宿区新製品発表会")).toBeUndefined();
+    expect(detectLanguage("Release v1.2.0 is out")).toBeUndefined();
+    expect(detectLanguage("Cómo usar la nueva versión to")).toBeUndefined();
+  });
+});
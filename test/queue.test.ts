@@ -0,0 +1,817 @@
+import {
+  createExecutionContext,
+  createMessageBatch,
+  createScheduledController,
+  env,
+  fetchMock,
+  getQueueResult,
+  waitOnExecutionContext,
+} from "cloudflare:test";
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import worker from "../src/index";
+import { mockDiscordPosts, mockFeed } from "./helpers/discord";
+
+const FEED_URL = "https://feeds.example.com/blog.xml";
+const CHANNEL_ID = "200000000000000001";
+
+const rss = `<?xml version="1.0"?>
+<rss version="2.0"><channel><title>Example Blog</title>
+<item><title>Second post</title><link>https://blog.example.com/2</link><guid>2</guid><pubDate>Tue, 02 Jan 2024 00:00:00 GMT</pubDate></item>
+<item><title>First post</title><link>https://blog.example.com/1</link><guid>1</guid><pubDate>Mon, 01 Jan 2024 00:00:00 GMT</pubDate></item>
+</channel></rss>`;
+
+async function seedSubscription(
+  overrides: Record<string, unknown> = {}
+): Promise<string> {
+  const subscription = {
+    id: "01HZZZZZZZZZZZZZZZZZZZZZZZ",
+    guildId: "100000000000000001",
+    channelId: CHANNEL_ID,
+    url: FEED_URL,
+    createdAt: Date.now(),
+    lastItemId: "1",
+    lastItemKey: "https://blog.example.com/1",
+    errorCount: 0,
+    ...overrides,
+  };
+  const key = `sub:g:${subscription.guildId}:${subscription.id}`;
+  await env.FEED_KV.put(key, JSON.stringify(subscription));
+  return key;
+}
+
+beforeAll(() => {
+  fetchMock.activate();
+  fetchMock.disableNetConnect();
+});
+
+afterEach(() => {
+  fetchMock.assertNoPendingInterceptors();
+});
+
+describe("feed check queue", () => {
+  it("fans out cron checks through the queue and posts new items", async () => {
+    const key = await seedSubscription();
+    mockFeed(FEED_URL, rss);
+    const posted = mockDiscordPosts(CHANNEL_ID);
+
+    const controller = createScheduledController({ cron: "*/10 0-14 * * *" });
+    const ctx = createExecutionContext();
+    await worker.scheduled(controller, env, ctx);
+    await waitOnExecutionContext(ctx);
+
+    await vi.waitFor(
+      async () => {
+        const stored = await env.FEED_KV.get<{ lastItemId?: string }>(
+          key,
+          "json"
+        );
+        expect(stored?.lastItemId).toBe("2");
+      },
+      { timeout: 15_000, interval: 250 }
+    );
+    expect(posted).toEqual(["Second post\nhttps://blog.example.com/2"]);
+  }, 20_000);
+
+  it("fetches a feed shared by several subscriptions only once", async () => {
+    const first = await seedSubscription();
+    const second = await seedSubscription({
+      id: "01HYYYYYYYYYYYYYYYYYYYYYYY",
+      guildId: "100000000000000002",
+      channelId: "200000000000000002",
+    });
+    mockFeed(FEED_URL, rss);
+    const postedFirst = mockDiscordPosts(CHANNEL_ID);
+    const postedSecond = mockDiscordPosts("200000000000000002");
+
+    const batch = createMessageBatch("feed-checks", [
+      {
+        id: "m0",
+        timestamp: new Date(),
+        attempts: 1,
+        body: { url: FEED_URL, subscriptionKeys: [first, second] },
+      },
+    ]);
+    const ctx = createExecutionContext();
+    await worker.queue(batch, env, ctx);
+    const result = await getQueueResult(batch, ctx);
+
+    expect(result.explicitAcks).toEqual(["m0"]);
+    expect(postedFirst).toHaveLength(1);
+    expect(postedSecond).toHaveLength(1);
+    const record = await env.FEED_KV.get<{
+      title?: string;
+      lastStatus?: number;
+    }>("feed:https://feeds.example.com/blog.xml", "json");
+    expect(record).toMatchObject({ title: "Example Blog", lastStatus: 200 });
+    const { keys } = await env.FEED_KV.list({ prefix: "seen:" });
+    expect(keys).toHaveLength(2);
+    expect(keys.every((entry) => entry.expiration === undefined)).toBe(true);
+  });
+
+  it("keeps feeds that differ only in query parameters apart", async () => {
+    const first = await seedSubscription();
+    const second = await seedSubscription({
+      id: "01HYYYYYYYYYYYYYYYYYYYYYYY",
+      url: `${FEED_URL}?ref=b`,
+    });
+    const batch = createMessageBatch("feed-checks", [
+      {
+        id: "m0",
+        timestamp: new Date(),
+        attempts: 1,
+        body: { url: FEED_URL, subscriptionKeys: [first, second] },
+      },
+    ]);
+    mockFeed(FEED_URL, rss);
+    const posted = mockDiscordPosts(CHANNEL_ID);
+    const ctx = createExecutionContext();
+    await worker.queue(batch, env, ctx);
+    await getQueueResult(batch, ctx);
+
+    expect(posted).toHaveLength(1);
+    expect(await env.FEED_KV.get(second, "json")).toMatchObject({
+      lastItemId: "1",
+    });
+  });
+
+  it("moves validators from the old feedcache key into the feed record", async () => {
+    const key = await seedSubscription({ lastCheckedAt: Date.now() });
+    await env.FEED_KV.put(
+      `feedcache:${FEED_URL}`,
+      JSON.stringify({ etag: '"v1"', updatedAt: 1 })
+    );
+    fetchMock
+      .get("https://feeds.example.com")
+      .intercept({ path: "/blog.xml", headers: { "If-None-Match": '"v1"' } })
+      .reply(304, "");
+
+    const batch = createMessageBatch("feed-checks", [
+      {
+        id: "m0",
+        timestamp: new Date(),
+        attempts: 1,
+        body: { url: FEED_URL, subscriptionKeys: [key] },
+      },
+    ]);
+    const ctx = createExecutionContext();
+    await worker.queue(batch, env, ctx);
+    expect((await getQueueResult(batch, ctx)).explicitAcks).toEqual(["m0"]);
+
+    expect(await env.FEED_KV.get(`feedcache:${FEED_URL}`)).toBeNull();
+    expect(await env.FEED_KV.get(`feed:${FEED_URL}`, "json")).toMatchObject({
+      etag: '"v1"',
+      validatorsUpdatedAt: 1,
+      lastStatus: 304,
+    });
+  });
+
+  it("stamps throttled subscriptions when the consumer polls them", async () => {
+    const key = await seedSubscription({
+      pollIntervalMinutes: 360,
+      lastItemId: "2",
+      lastItemKey: "https://blog.example.com/2",
+    });
+    mockFeed(FEED_URL, rss);
+
+    const batch = createMessageBatch("feed-checks", [
+      {
+        id: "t1",
+        timestamp: new Date(),
+        attempts: 1,
+        body: { url: FEED_URL, subscriptionKeys: [key], polledKeys: [key] },
+      },
+    ]);
+    const ctx = createExecutionContext();
+    await worker.queue(batch, env, ctx);
+    expect((await getQueueResult(batch, ctx)).explicitAcks).toEqual(["t1"]);
+
+    const stored = await env.FEED_KV.get<{ lastPolledAt?: number }>(
+      key,
+      "json"
+    );
+    expect(stored?.lastPolledAt).toBeTypeOf("number");
+  });
+
+  it("records a failed check once and retries it until it dead-letters", async () => {
+    const key = await seedSubscription({ errorCount: 2 });
+    fetchMock
+      .get("https://feeds.example.com")
+      .intercept({ path: "/blog.xml" })
+      .reply(503, "unavailable")
+      .times(2);
+
+    const body = { url: FEED_URL, subscriptionKeys: [key] };
+
+    const firstBatch = createMessageBatch("feed-checks", [
+      { id: "m1", timestamp: new Date(), attempts: 1, body },
+    ]);
+    const firstCtx = createExecutionContext();
+    await worker.queue(firstBatch, env, firstCtx);
+    const first = await getQueueResult(firstBatch, firstCtx);
+    expect(first.retryMessages.map((message) => message.msgId)).toEqual(["m1"]);
+    const afterFirst = await env.FEED_KV.get<{
+      errorCount?: number;
+      lastError?: string;
+      status?: string;
+    }>(key, "json");
+    expect(afterFirst?.errorCount).toBe(3);
+    expect(afterFirst?.lastError).toBe("Feed fetch failed (503)");
+    expect(afterFirst?.status).toBe("degraded");
+
+    const retryBatch = createMessageBatch("feed-checks", [
+      { id: "m1", timestamp: new Date(), attempts: 4, body },
+    ]);
+    const retryCtx = createExecutionContext();
+    await worker.queue(retryBatch, env, retryCtx);
+    const retried = await getQueueResult(retryBatch, retryCtx);
+    expect(retried.explicitAcks).toEqual([]);
+    expect(retried.retryMessages.map((message) => message.msgId)).toEqual([
+      "m1",
+    ]);
+    const afterRetry = await env.FEED_KV.get<{ errorCount?: number }>(
+      key,
+      "json"
+    );
+    expect(afterRetry?.errorCount).toBe(3);
+  });
+
+  it("opens a forum post or a thread for each delivered item", async () => {
+    const forumKey = await seedSubscription({
+      delivery: { type: "forum", tagIds: ["700000000000000001"] },
+    });
+    const threadKey = await seedSubscription({
+      id: "01HYYYYYYYYYYYYYYYYYYYYYYY",
+      channelId: "200000000000000002",
+      threadPerItem: true,
+    });
+    mockFeed(FEED_URL, rss);
+    const forumPosts: unknown[] = [];
+    fetchMock
+      .get("https://discord.com")
+      .intercept({
+        method: "POST",
+        path: `/api/v10/channels/${CHANNEL_ID}/threads`,
+      })
+      .reply(200, (request) => {
+        forumPosts.push(JSON.parse(String(request.body)));
+        return { id: "800000000000000001" };
+      });
+    const posted = mockDiscordPosts("200000000000000002");
+    const threads: unknown[] = [];
+    fetchMock
+      .get("https://discord.com")
+      .intercept({
+        method: "POST",
+        path: "/api/v10/channels/200000000000000002/messages/1/threads",
+      })
+      .reply(200, (request) => {
+        threads.push(JSON.parse(String(request.body)));
+        return { id: "800000000000000002" };
+      });
+
+    const batch = createMessageBatch("feed-checks", [
+      {
+        id: "f1",
+        timestamp: new Date(),
+        attempts: 1,
+        body: { url: FEED_URL, subscriptionKeys: [forumKey, threadKey] },
+      },
+    ]);
+    const ctx = createExecutionContext();
+    await worker.queue(batch, env, ctx);
+    expect((await getQueueResult(batch, ctx)).explicitAcks).toEqual(["f1"]);
+
+    expect(forumPosts).toEqual([
+      {
+        name: "Second post",
+        auto_archive_duration: 1440,
+        applied_tags: ["700000000000000001"],
+        message: {
+          content: "Second post\nhttps://blog.example.com/2",
+          allowed_mentions: { parse: [], roles: [], users: [] },
+        },
+      },
+    ]);
+    expect(posted).toEqual(["Second post\nhttps://blog.example.com/2"]);
+    expect(threads).toEqual([
+      { name: "Second post", auto_archive_duration: 1440 },
+    ]);
+  });
+
+  it("publishes posts in announcement channels and backs off when limited", async () => {
+    const published = await seedSubscription({ publish: true });
+    const limited = await seedSubscription({
+      id: "01HYYYYYYYYYYYYYYYYYYYYYYY",
+      channelId: "200000000000000002",
+      publish: true,
+    });
+    mockFeed(FEED_URL, rss);
+    const postedFirst = mockDiscordPosts(CHANNEL_ID);
+    const postedSecond = mockDiscordPosts("200000000000000002");
+    const crossposts: string[] = [];
+    fetchMock
+      .get("https://discord.com")
+      .intercept({
+        method: "POST",
+        path: `/api/v10/channels/${CHANNEL_ID}/messages/1/crosspost`,
+      })
+      .reply(200, (request) => {
+        crossposts.push(request.path);
+        return { id: "1" };
+      });
+    fetchMock
+      .get("https://discord.com")
+      .intercept({
+        method: "POST",
+        path: "/api/v10/channels/200000000000000002/messages/1/crosspost",
+      })
+      .reply(
+        429,
+        { message: "You are being rate limited.", retry_after: 600 },
+        { headers: { "Retry-After": "600" } }
+      );
+
+    const batch = createMessageBatch("feed-checks", [
+      {
+        id: "p1",
+        timestamp: new Date(),
+        attempts: 1,
+        body: { url: FEED_URL, subscriptionKeys: [published, limited] },
+      },
+    ]);
+    const ctx = createExecutionContext();
+    await worker.queue(batch, env, ctx);
+    expect((await getQueueResult(batch, ctx)).explicitAcks).toEqual(["p1"]);
+
+    expect(postedFirst).toHaveLength(1);
+    expect(postedSecond).toHaveLength(1);
+    expect(crossposts).toHaveLength(1);
+    expect(
+      await env.FEED_KV.get("crosspostblock:200000000000000002")
+    ).not.toBeNull();
+    expect(
+      await env.FEED_KV.get("outbox:01HYYYYYYYYYYYYYYYYYYYYYYY")
+    ).toBeNull();
+  });
+
+  it("keeps embed posts to the lead when the template has no text", async () => {
+    const key = await seedSubscription({
+      messageStyle: "embed",
+      template: { prefix: "📢", roleId: "600000000000000001" },
+    });
+    mockFeed(FEED_URL, rss);
+    const messages: Array<Record<string, any>> = [];
+    fetchMock
+      .get("https://discord.com")
+      .intercept({
+        method: "POST",
+        path: `/api/v10/channels/${CHANNEL_ID}/messages`,
+      })
+      .reply(200, (request) => {
+        messages.push(JSON.parse(String(request.body)));
+        return { id: "1" };
+      });
+
+    const batch = createMessageBatch("feed-checks", [
+      {
+        id: "e1",
+        timestamp: new Date(),
+        attempts: 1,
+        body: { url: FEED_URL, subscriptionKeys: [key] },
+      },
+    ]);
+    const ctx = createExecutionContext();
+    await worker.queue(batch, env, ctx);
+    expect((await getQueueResult(batch, ctx)).explicitAcks).toEqual(["e1"]);
+
+    expect(messages).toHaveLength(1);
+    expect(messages[0].content).toBe("<@&600000000000000001> 📢");
+    expect(messages[0].embeds[0]).toMatchObject({
+      title: "Second post",
+      url: "https://blog.example.com/2",
+    });
+  });
+
+  it("mentions only the roles and users whose rules match", async () => {
+    const key = await seedSubscription({
+      mentions: [
+        { roleId: "600000000000000001", when: [] },
+        {
+          roleId: "600000000000000002",
+          when: [{ type: "regex", value: "/CVE|vulnerability/i" }],
+        },
+        {
+          userId: "600000000000000003",
+          when: [{ type: "keyword", value: "second" }],
+        },
+      ],
+    });
+    mockFeed(FEED_URL, rss);
+    const messages: unknown[] = [];
+    fetchMock
+      .get("https://discord.com")
+      .intercept({
+        method: "POST",
+        path: `/api/v10/channels/${CHANNEL_ID}/messages`,
+      })
+      .reply(200, (request) => {
+        messages.push(JSON.parse(String(request.body)));
+        return { id: "1" };
+      });
+
+    const batch = createMessageBatch("feed-checks", [
+      {
+        id: "n1",
+        timestamp: new Date(),
+        attempts: 1,
+        body: { url: FEED_URL, subscriptionKeys: [key] },
+      },
+    ]);
+    const ctx = createExecutionContext();
+    await worker.queue(batch, env, ctx);
+    expect((await getQueueResult(batch, ctx)).explicitAcks).toEqual(["n1"]);
+
+    expect(messages).toEqual([
+      {
+        content:
+          "<@&600000000000000001> <@600000000000000003> Second post\nhttps://blog.example.com/2",
+        allowed_mentions: {
+          parse: [],
+          roles: ["600000000000000001"],
+          users: ["600000000000000003"],
+        },
+      },
+    ]);
+  });
+
+  it("drops items in other languages and translates the rest", async () => {
+    const english = await seedSubscription({ languages: ["ja"] });
+    const translated = await seedSubscription({
+      id: "01HYYYYYYYYYYYYYYYYYYYYYYY",
+      channelId: "200000000000000002",
+      translateTo: "ja",
+    });
+    mockFeed(
+      FEED_URL,
+      rss.replace("<title>Example Blog</title>", "$&<language>en-us</language>")
+    );
+    const posted = mockDiscordPosts("200000000000000002");
+
+    const batch = createMessageBatch("feed-checks", [
+      {
+        id: "l1",
+        timestamp: new Date(),
+        attempts: 1,
+        body: { url: FEED_URL, subscriptionKeys: [english, translated] },
+      },
+    ]);
+    const ctx = createExecutionContext();
+    await worker.queue(batch, env, ctx);
+    expect((await getQueueResult(batch, ctx)).explicitAcks).toEqual(["l1"]);
+
+    expect(posted).toEqual(["[ja] Second post\nhttps://blog.example.com/2"]);
+    expect(await env.FEED_KV.get(english, "json")).toMatchObject({
+      lastItemId: "2",
+    });
+  });
+
+  it("waits out Discord rate limits before posting", async () => {
+    const key = await seedSubscription();
+    mockFeed(FEED_URL, rss);
+    fetchMock
+      .get("https://discord.com")
+      .intercept({
+        method: "POST",
+        path: `/api/v10/channels/${CHANNEL_ID}/messages`,
+      })
+      .reply(
+        429,
+        { message: "You are being rate limited.", retry_after: 0.05 },
+        { headers: { "Retry-After": "0.05" } }
+      );
+    const posted = mockDiscordPosts(CHANNEL_ID);
+
+    const batch = createMessageBatch("feed-checks", [
+      {
+        id: "r1",
+        timestamp: new Date(),
+        attempts: 1,
+        body: { url: FEED_URL, subscriptionKeys: [key] },
+      },
+    ]);
+    const ctx = createExecutionContext();
+    await worker.queue(batch, env, ctx);
+    expect((await getQueueResult(batch, ctx)).explicitAcks).toEqual(["r1"]);
+    expect(posted).toEqual(["Second post\nhttps://blog.example.com/2"]);
+  });
+
+  it("keeps items hit by a transient failure in the outbox", async () => {
+    const key = await seedSubscription();
+    const body = { url: FEED_URL, subscriptionKeys: [key] };
+    const runCheck = async (id: string) => {
+      const batch = createMessageBatch("feed-checks", [
+        { id, timestamp: new Date(), attempts: 1, body },
+      ]);
+      const ctx = createExecutionContext();
+      await worker.queue(batch, env, ctx);
+      return getQueueResult(batch, ctx);
+    };
+
+    mockFeed(FEED_URL, rss);
+    fetchMock
+      .get("https://discord.com")
+      .intercept({
+        method: "POST",
+        path: `/api/v10/channels/${CHANNEL_ID}/messages`,
+      })
+      .reply(
+        429,
+        { message: "You are being rate limited.", retry_after: 60 },
+        { headers: { "Retry-After": "60" } }
+      );
+    expect((await runCheck("o1")).explicitAcks).toEqual(["o1"]);
+    const outbox = await env.FEED_KV.get<Array<{ id: string }>>(
+      "outbox:01HZZZZZZZZZZZZZZZZZZZZZZZ",
+      "json"
+    );
+    expect(outbox?.map((item) => item.id)).toEqual(["2"]);
+    const stored = await env.FEED_KV.get<Record<string, unknown>>(key, "json");
+    expect(stored).toMatchObject({ lastItemId: "2" });
+    expect(stored?.heldSince).toBeTypeOf("number");
+
+    mockFeed(FEED_URL, rss);
+    const posted = mockDiscordPosts(CHANNEL_ID);
+    expect((await runCheck("o2")).explicitAcks).toEqual(["o2"]);
+    expect(posted).toEqual(["Second post\nhttps://blog.example.com/2"]);
+    expect(
+      await env.FEED_KV.get("outbox:01HZZZZZZZZZZZZZZZZZZZZZZZ")
+    ).toBeNull();
+  });
+
+  it("records permanent delivery failures and leaves the items unread", async () => {
+    const key = await seedSubscription();
+    const body = { url: FEED_URL, subscriptionKeys: [key] };
+    const runCheck = async (id: string) => {
+      const batch = createMessageBatch("feed-checks", [
+        { id, timestamp: new Date(), attempts: 1, body },
+      ]);
+      const ctx = createExecutionContext();
+      await worker.queue(batch, env, ctx);
+      return getQueueResult(batch, ctx);
+    };
+
+    mockFeed(FEED_URL, rss);
+    fetchMock
+      .get("https://discord.com")
+      .intercept({
+        method: "POST",
+        path: `/api/v10/channels/${CHANNEL_ID}/messages`,
+      })
+      .reply(403, { message: "Missing Access", code: 50001 });
+    expect((await runCheck("x1")).explicitAcks).toEqual(["x1"]);
+    expect(
+      await env.FEED_KV.get("outbox:01HZZZZZZZZZZZZZZZZZZZZZZZ")
+    ).toBeNull();
+    const failed = await env.FEED_KV.get<Record<string, unknown>>(key, "json");
+    expect(failed).toMatchObject({ errorCount: 1, lastItemId: "1" });
+    expect(failed?.lastError).toContain("403");
+    expect(failed?.heldSince).toBeUndefined();
+
+    mockFeed(FEED_URL, rss);
+    const posted = mockDiscordPosts(CHANNEL_ID);
+    expect((await runCheck("x2")).explicitAcks).toEqual(["x2"]);
+    expect(posted).toEqual(["Second post\nhttps://blog.example.com/2"]);
+    expect(await env.FEED_KV.get(key, "json")).toMatchObject({
+      errorCount: 0,
+      lastItemId: "2",
+    });
+  });
+
+  it("holds items found during quiet hours until the window ends", async () => {
+    const hour = new Date().getUTCHours();
+    const at = (offset: number) => `${(hour + offset) % 24}:00`;
+    const key = await seedSubscription({
+      quietHours: { start: at(23), end: at(1), timeZone: "UTC" },
+    });
+    const body = { url: FEED_URL, subscriptionKeys: [key] };
+    const runCheck = async (id: string) => {
+      const batch = createMessageBatch("feed-checks", [
+        { id, timestamp: new Date(), attempts: 1, body },
+      ]);
+      const ctx = createExecutionContext();
+      await worker.queue(batch, env, ctx);
+      return getQueueResult(batch, ctx);
+    };
+
+    mockFeed(FEED_URL, rss);
+    expect((await runCheck("q1")).explicitAcks).toEqual(["q1"]);
+    const held = await env.FEED_KV.get<Array<{ id: string }>>(
+      "outbox:01HZZZZZZZZZZZZZZZZZZZZZZZ",
+      "json"
+    );
+    expect(held?.map((item) => item.id)).toEqual(["2"]);
+
+    const stored = await env.FEED_KV.get<Record<string, unknown>>(key, "json");
+    await env.FEED_KV.put(
+      key,
+      JSON.stringify({
+        ...stored,
+        quietHours: { start: at(2), end: at(3), timeZone: "UTC" },
+      })
+    );
+    mockFeed(FEED_URL, rss);
+    const posted = mockDiscordPosts(CHANNEL_ID);
+    expect((await runCheck("q2")).explicitAcks).toEqual(["q2"]);
+
+    expect(posted).toEqual(["Second post\nhttps://blog.example.com/2"]);
+    expect(
+      await env.FEED_KV.get("outbox:01HZZZZZZZZZZZZZZZZZZZZZZZ")
+    ).toBeNull();
+    const flushed = await env.FEED_KV.get<{ heldSince?: number }>(key, "json");
+    expect(flushed?.heldSince).toBeUndefined();
+  });
+
+  it("collects items for a channel digest and posts them on schedule", async () => {
+    const key = await seedSubscription({ feedTitle: "Example Blog" });
+    await env.FEED_KV.put(
+      `digestcfg:${CHANNEL_ID}`,
+      JSON.stringify({
+        guildId: "100000000000000001",
+        channelId: CHANNEL_ID,
+        frequency: "daily",
+        time: "00:00",
+        timeZone: "UTC",
+        createdAt: Date.now() - 2 * 24 * 60 * 60 * 1000,
+      })
+    );
+
+    mockFeed(FEED_URL, rss);
+    const batch = createMessageBatch("feed-checks", [
+      {
+        id: "d1",
+        timestamp: new Date(),
+        attempts: 1,
+        body: { url: FEED_URL, subscriptionKeys: [key] },
+      },
+    ]);
+    const queueCtx = createExecutionContext();
+    await worker.queue(batch, env, queueCtx);
+    await getQueueResult(batch, queueCtx);
+    expect(
+      await env.FEED_KV.get("digest:01HZZZZZZZZZZZZZZZZZZZZZZZ", "json")
+    ).toEqual({
+      entries: [
+        {
+          title: "Second post",
+          link: "https://blog.example.com/2",
+          date: Date.parse("2024-01-02T00:00:00Z"),
+        },
+      ],
+      dropped: 0,
+    });
+
+    // Keep the cron from queueing another check of the feed.
+    const stored = await env.FEED_KV.get<Record<string, unknown>>(key, "json");
+    await env.FEED_KV.put(
+      key,
+      JSON.stringify({ ...stored, pausedByUser: true })
+    );
+
+    const digests: unknown[] = [];
+    fetchMock
+      .get("https://discord.com")
+      .intercept({
+        method: "POST",
+        path: `/api/v10/channels/${CHANNEL_ID}/messages`,
+      })
+      .reply(200, (request) => {
+        digests.push(JSON.parse(String(request.body)));
+        return { id: "1" };
+      });
+    const ctx = createExecutionContext();
+    await worker.scheduled(
+      createScheduledController({ cron: "*/10 0-14 * * *" }),
+      env,
+      ctx
+    );
+    await waitOnExecutionContext(ctx);
+
+    expect(digests).toEqual([
+      {
+        content: "📰 ダイジェスト（1 件）",
+        allowed_mentions: { parse: [] },
+        embeds: [
+          {
+            title: "Example Blog",
+            description: "• [Second post](https://blog.example.com/2)",
+            color: 0x3b82f6,
+          },
+        ],
+      },
+    ]);
+    expect(
+      await env.FEED_KV.get("digest:01HZZZZZZZZZZZZZZZZZZZZZZZ")
+    ).toBeNull();
+    const config = await env.FEED_KV.get<{ lastSentAt?: number }>(
+      `digestcfg:${CHANNEL_ID}`,
+      "json"
+    );
+    expect(config?.lastSentAt).toBeGreaterThan(0);
+  });
+
+  it("sends digests through each subscription's delivery and keeps unsent items", async () => {
+    await seedSubscription({ pausedByUser: true });
+    await seedSubscription({
+      id: "01HYYYYYYYYYYYYYYYYYYYYYYY",
+      feedTitle: "Webhook Blog",
+      delivery: {
+        type: "webhook",
+        webhookId: "600000000000000001",
+        webhookToken: "token",
+      },
+      pausedByUser: true,
+    });
+    await env.FEED_KV.put(
+      `digestcfg:${CHANNEL_ID}`,
+      JSON.stringify({
+        guildId: "100000000000000001",
+        channelId: CHANNEL_ID,
+        frequency: "daily",
+        time: "00:00",
+        timeZone: "UTC",
+        createdAt: Date.now() - 2 * 24 * 60 * 60 * 1000,
+      })
+    );
+    const entries = Array.from({ length: 100 }, (_, i) => ({
+      title: `${i}`.padEnd(200, "x"),
+      link: `https://blog.example.com/${i}`,
+    }));
+    await env.FEED_KV.put(
+      "digest:01HZZZZZZZZZZZZZZZZZZZZZZZ",
+      JSON.stringify({ entries, dropped: 3 })
+    );
+    await env.FEED_KV.put(
+      "digest:01HYYYYYYYYYYYYYYYYYYYYYYY",
+      JSON.stringify({ entries: [{ title: "Hooked" }], dropped: 0 })
+    );
+
+    const sent: Array<{ embeds: Array<{ description: string }> }> = [];
+    const discord = fetchMock.get("https://discord.com");
+    discord
+      .intercept({
+        method: "POST",
+        path: `/api/v10/channels/${CHANNEL_ID}/messages`,
+      })
+      .reply(200, (request) => {
+        sent.push(JSON.parse(String(request.body)));
+        return { id: "1" };
+      });
+    discord
+      .intercept({
+        method: "POST",
+        path: `/api/v10/channels/${CHANNEL_ID}/messages`,
+      })
+      .reply(403, { message: "Missing Access" });
+    const hooked: Array<{ username?: string }> = [];
+    discord
+      .intercept({
+        method: "POST",
+        path: "/api/v10/webhooks/600000000000000001/token?wait=true",
+      })
+      .reply(200, (request) => {
+        hooked.push(JSON.parse(String(request.body)));
+        return { id: "2" };
+      });
+
+    const ctx = createExecutionContext();
+    await worker.scheduled(
+      createScheduledController({ cron: "*/10 0-14 * * *" }),
+      env,
+      ctx
+    );
+    await waitOnExecutionContext(ctx);
+
+    expect(hooked).toHaveLength(1);
+    expect(hooked[0].username).toBe("Webhook Blog");
+    expect(
+      await env.FEED_KV.get("digest:01HYYYYYYYYYYYYYYYYYYYYYYY")
+    ).toBeNull();
+
+    expect(sent).toHaveLength(1);
+    const postedLines = sent[0].embeds.flatMap((embed) =>
+      embed.description.split("\n")
+    );
+    expect(postedLines[0]).toContain("ほか 3 件");
+    const left = await env.FEED_KV.get<{
+      entries: unknown[];
+      dropped: number;
+    }>("digest:01HZZZZZZZZZZZZZZZZZZZZZZZ", "json");
+    expect(left?.dropped).toBe(0);
+    expect(left?.entries).toEqual(entries.slice(postedLines.length - 1));
+    const config = await env.FEED_KV.get<{ lastSentAt?: number }>(
+      `digestcfg:${CHANNEL_ID}`,
+      "json"
+    );
+    expect(config?.lastSentAt).toBeUndefined();
+  });
+});
@@ -0,0 +1,33 @@
+import { defineWorkersConfig } from "@cloudflare/vitest-pool-workers/config";
+
+export default defineWorkersConfig({
+  test: {
+    poolOptions: {
+      workers: {
+        wrangler: { configPath: "./wrangler.toml" },
+        miniflare: {
+          bindings: {
+            DISCORD_PUBLIC_KEY:
+              "ea4a6c63e29c520abef5507b132ec5f9954776aebebe7b92421eea691446d22c",
+            DISCORD_BOT_TOKEN: "test-bot-token",
+            BOT_OWNER_IDS: "500000000000000001",
+          },
+          wrappedBindings: { AI: { scriptName: "fake-ai" } },
+          workers: [
+            {
+              name: "fake-ai",
+              modules: true,
+              script: `export default function () {
+                return {
+                  async run(_model, inputs) {
+                    return { translated_text: \`[\${inputs.target_lang}] \${inputs.text}\` };
+                  },
+                };
+              }`,
+            },
+          ],
+        },
+      },
+    },
+  },
+});